@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Modals for choosing which links to convert in bulk.
+ * @module bulk_convert_modal
+ */
+
+import {
+	type App,
+	ButtonComponent,
+	FuzzySuggestModal,
+	Modal,
+	TFolder,
+} from "obsidian";
+
+import type { LinkCandidate } from "src/bulk_converter";
+import { i18n } from "src/lang/i18n";
+
+/**
+ * Lists conversion candidates with checkboxes so the user can pick which to convert.
+ * @extends Modal
+ */
+export class BulkConvertModal extends Modal {
+	/** The candidates to review */
+	candidates: LinkCandidate[];
+	/** Called with the selected candidates when the user confirms */
+	onConfirm: (selected: LinkCandidate[]) => void | Promise<void>;
+	/** Indexes of the currently selected candidates */
+	private selected: Set<number>;
+
+	/**
+	 * Creates a new BulkConvertModal.
+	 * @param app - The Obsidian App instance
+	 * @param candidates - The candidates to review
+	 * @param onConfirm - Called with the selected candidates when the user confirms
+	 */
+	constructor(
+		app: App,
+		candidates: LinkCandidate[],
+		onConfirm: (selected: LinkCandidate[]) => void | Promise<void>,
+	) {
+		super(app);
+		this.candidates = candidates;
+		this.onConfirm = onConfirm;
+		this.selected = new Set(candidates.keys());
+	}
+
+	/**
+	 * Renders the candidate list.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(
+			i18n.modals.convert.title.replace(
+				"{count}",
+				String(this.candidates.length),
+			),
+		);
+
+		const checkboxes: HTMLInputElement[] = [];
+		const listEl = contentEl.createDiv("auto-card-link-candidate-list");
+		this.candidates.forEach((candidate, i) => {
+			const itemEl = listEl.createEl("label", {
+				cls: "auto-card-link-candidate",
+			});
+			const checkbox = itemEl.createEl("input", { type: "checkbox" });
+			checkbox.checked = true;
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) this.selected.add(i);
+				else this.selected.delete(i);
+			});
+			checkboxes.push(checkbox);
+
+			const textEl = itemEl.createDiv();
+			textEl.createDiv({
+				cls: "auto-card-link-candidate-source",
+				text: `${candidate.file.path}:${candidate.line + 1}`,
+			});
+			textEl.createDiv({
+				cls: "auto-card-link-candidate-url",
+				text: candidate.url,
+			});
+		});
+
+		const setAll = (checked: boolean) => {
+			checkboxes.forEach((checkbox, i) => {
+				checkbox.checked = checked;
+				if (checked) this.selected.add(i);
+				else this.selected.delete(i);
+			});
+		};
+
+		const buttonsEl = contentEl.createDiv("modal-button-container");
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.convert.selectAll)
+			.onClick(() => setAll(true));
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.convert.selectNone)
+			.onClick(() => setAll(false));
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.convert.convert)
+			.setCta()
+			.onClick(async () => {
+				this.close();
+				await this.onConfirm(
+					this.candidates.filter((_, i) => this.selected.has(i)),
+				);
+			});
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.cancel)
+			.onClick(() => this.close());
+	}
+
+	/**
+	 * Cleans up the modal content.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Fuzzy picker for choosing a folder of the vault.
+ * @extends FuzzySuggestModal
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	/** Called with the chosen folder */
+	onChoose: (folder: TFolder) => void;
+
+	/**
+	 * Creates a new FolderSuggestModal.
+	 * @param app - The Obsidian App instance
+	 * @param onChoose - Called with the chosen folder
+	 */
+	constructor(app: App, onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder(i18n.modals.convert.chooseFolder);
+	}
+
+	/**
+	 * Lists every folder in the vault.
+	 * @returns The folders
+	 */
+	getItems(): TFolder[] {
+		return this.app.vault
+			.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	/**
+	 * Gets the display text of a folder.
+	 * @param folder - The folder
+	 * @returns The folder path
+	 */
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	/**
+	 * Called when a folder is chosen.
+	 * @param folder - The chosen folder
+	 */
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Converts standalone links in notes to cardlink blocks in bulk.
+ * @module bulk_converter
+ */
+
+import { moment, Notice, TFile, type TFolder, Vault } from "obsidian";
+
+import { CardFields } from "src/card_fields";
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { CheckIf } from "src/checkif";
+import { Concurrency } from "src/concurrency";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+import { linkRegex } from "src/regex";
+
+/**
+ * A line that can be converted into a cardlink block.
+ */
+export interface LinkCandidate {
+	/** The file containing the line */
+	file: TFile;
+	/** Line number of the candidate */
+	line: number;
+	/** The full original line */
+	text: string;
+	/** Whitespace preceding the link, kept as the block's indentation */
+	prefix: string;
+	/** The URL to fetch */
+	url: string;
+}
+
+/**
+ * Finds bare URLs and Markdown links on their own lines and converts them to cards.
+ */
+export class BulkConverter {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new BulkConverter.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Collects the Markdown files inside a folder, recursively.
+	 * @param folder - The folder to search
+	 * @returns The Markdown files in the folder
+	 */
+	static getMarkdownFiles(folder: TFolder): TFile[] {
+		const files: TFile[] = [];
+		Vault.recurseChildren(folder, (child) => {
+			if (child instanceof TFile && child.extension === "md") {
+				files.push(child);
+			}
+		});
+		return files;
+	}
+
+	/**
+	 * Scans files for lines that only contain a URL or a Markdown link.
+	 * Code blocks (including existing cardlink blocks) and frontmatter are skipped,
+	 * as are links that may not be fetched.
+	 * @param files - The files to scan
+	 * @returns The candidates in file and line order
+	 */
+	async scan(files: TFile[]): Promise<LinkCandidate[]> {
+		const candidates: LinkCandidate[] = [];
+		for (const file of files) {
+			if (!this.plugin.policy.allowsFile(file)) continue;
+			const text = await this.plugin.app.vault.cachedRead(file);
+			candidates.push(
+				...BulkConverter.scanText(file, text).filter((candidate) =>
+					this.plugin.policy.allowsUrl(candidate.url),
+				),
+			);
+		}
+		return candidates;
+	}
+
+	/**
+	 * Scans a single document for candidates.
+	 * @param file - The file the text belongs to
+	 * @param text - The document content
+	 * @returns The candidates in line order
+	 */
+	private static scanText(file: TFile, text: string): LinkCandidate[] {
+		return BulkConverter.findStandaloneLinks(text).map((link) => ({
+			file,
+			...link,
+		}));
+	}
+
+	/**
+	 * Finds the lines of a document that only contain a URL or a Markdown link.
+	 * Code blocks (including existing cardlink blocks) and frontmatter are skipped.
+	 * @param text - The document content
+	 * @returns The links in line order
+	 */
+	static findStandaloneLinks(text: string): Omit<LinkCandidate, "file">[] {
+		const lines = text.split(/\r?\n/);
+		const skipped = BulkConverter.findSkippedLines(text);
+
+		const links: Omit<LinkCandidate, "file">[] = [];
+		lines.forEach((line, i) => {
+			if (skipped.has(i)) return;
+
+			const link = BulkConverter.parseStandaloneLine(line);
+			if (link) links.push({ line: i, text: line, ...link });
+		});
+		return links;
+	}
+
+	/**
+	 * Finds the lines of a document that never hold a standalone link: code
+	 * blocks (including existing cardlink blocks) and frontmatter.
+	 * @param text - The document content
+	 * @returns The line numbers
+	 */
+	static findSkippedLines(text: string): Set<number> {
+		const lines = text.split(/\r?\n/);
+		const skipped = CardLinkBlocks.findFencedLines(text);
+
+		// Skip frontmatter
+		if (lines[0] === "---") {
+			const end = lines.indexOf("---", 1);
+			for (let i = 0; i <= end; i++) skipped.add(i);
+		}
+		return skipped;
+	}
+
+	/**
+	 * Reads the link of a line that only contains a URL or a Markdown link.
+	 * Whether the line is inside a code block or frontmatter isn't checked.
+	 * @param line - The line
+	 * @returns The URL and the whitespace preceding it, or undefined if the line holds anything else
+	 */
+	static parseStandaloneLine(
+		line: string,
+	): { prefix: string; url: string } | undefined {
+		const prefix = /^[ \t]*/.exec(line)?.[0] ?? "";
+		const content = line.trim();
+		let url: string | undefined;
+		if (CheckIf.isUrl(content)) {
+			url = content;
+		} else if (CheckIf.isLinkedUrl(content)) {
+			url = new RegExp(linkRegex).exec(content)?.[2];
+		}
+		if (!url) return;
+		return { prefix, url };
+	}
+
+	/**
+	 * Fetches metadata for the candidates and replaces their lines with cardlink blocks.
+	 * Files are written through the vault, so closed files are updated too.
+	 * @param candidates - The candidates to convert
+	 */
+	async convert(candidates: LinkCandidate[]): Promise<void> {
+		if (candidates.length === 0) return;
+
+		const notice = new Notice("", 0);
+		const results = await Concurrency.map(
+			candidates,
+			this.plugin.settings?.fetchConcurrency ?? 1,
+			async (candidate) => {
+				const fetched = await this.plugin.fetcher.fetch(candidate.url);
+				let linkMetadata = fetched && this.plugin.normalizer.apply(fetched);
+				if (linkMetadata && this.plugin.settings?.localizeImages) {
+					linkMetadata = await this.plugin.localizer.localize(linkMetadata);
+				}
+				return linkMetadata && CardFields.withHashes(linkMetadata);
+			},
+			(done, total) =>
+				notice.setMessage(
+					i18n.notices.convertProgress
+						.replace("{done}", String(done))
+						.replace("{total}", String(total)),
+				),
+		);
+		notice.hide();
+
+		const byFile = new Map<
+			TFile,
+			{ candidate: LinkCandidate; block: string[] }[]
+		>();
+		const added = moment().format("YYYY-MM-DD");
+		let failed = 0;
+		candidates.forEach((candidate, i) => {
+			const linkMetadata = results[i];
+			if (!linkMetadata) {
+				failed++;
+				return;
+			}
+
+			const block = [
+				"```cardlink",
+				...CardLinkSchema.serialize({ ...linkMetadata, added }),
+				"```",
+			].map((line) => `${candidate.prefix}${line}`);
+			byFile.set(candidate.file, [
+				...(byFile.get(candidate.file) ?? []),
+				{ candidate, block },
+			]);
+		});
+
+		let converted = 0;
+		for (const [file, replacements] of byFile) {
+			await this.plugin.app.vault.process(file, (data) => {
+				const lines = data.split("\n");
+				// Replace from the bottom so earlier line numbers stay valid
+				const sorted = [...replacements].sort(
+					(a, b) => b.candidate.line - a.candidate.line,
+				);
+				for (const { candidate, block } of sorted) {
+					const line = BulkConverter.locate(lines, candidate);
+					if (line < 0) continue;
+					lines.splice(line, 1, ...block);
+					converted++;
+				}
+				return lines.join("\n");
+			});
+		}
+
+		new Notice(
+			i18n.notices.convertDone
+				.replace("{count}", String(converted))
+				.replace("{failed}", String(failed)),
+		);
+	}
+
+	/**
+	 * Finds the current line of a candidate, in case the file changed while fetching.
+	 * @param lines - The current document lines
+	 * @param candidate - The candidate to locate
+	 * @returns The line number or -1 if the line no longer exists
+	 */
+	private static locate(lines: string[], candidate: LinkCandidate): number {
+		const isSame = (line: string | undefined) =>
+			line?.replace(/\r$/, "") === candidate.text.replace(/\r$/, "");
+		if (isSame(lines[candidate.line])) return candidate.line;
+		return lines.findIndex(isSame);
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Card fields compared on refresh, and the hashes that tell hand edits apart.
+ * @module card_fields
+ */
+
+import type { LinkMetadata } from "src/interfaces";
+
+/**
+ * Card fields that are compared and rewritten when refreshing.
+ */
+export const CARD_FIELDS = [
+	"title",
+	"description",
+	"host",
+	"siteName",
+	"author",
+	"published",
+	"type",
+	"kind",
+	"badges",
+	"favicon",
+	"image",
+] as const;
+
+/**
+ * A card field that is compared and rewritten when refreshing.
+ */
+export type CardField = (typeof CARD_FIELDS)[number];
+
+/**
+ * Static utility class for reading and hashing card fields.
+ */
+export class CardFields {
+	/**
+	 * Gets the value of a card field as text for comparison and display.
+	 * @param linkMetadata - The card metadata
+	 * @param field - The field to read
+	 * @returns The field value, badges joined with commas
+	 */
+	static text(linkMetadata: LinkMetadata, field: CardField): string {
+		const value = linkMetadata[field];
+		if (Array.isArray(value)) return value.join(", ");
+		return value ?? "";
+	}
+
+	/**
+	 * Records the hashes of the card fields of metadata that is about to be
+	 * written, after it was normalized and its images were localized.
+	 * @param linkMetadata - The fetched metadata as it will be written
+	 * @returns A copy with its fetched hashes
+	 */
+	static withHashes(linkMetadata: LinkMetadata): LinkMetadata {
+		return { ...linkMetadata, fetchedHash: CardFields.hash(linkMetadata) };
+	}
+
+	/**
+	 * Hashes the card fields of fetched metadata, so a block can tell later
+	 * which of its fields were edited by hand.
+	 * @param linkMetadata - The fetched metadata
+	 * @returns The hashes of the non-empty fields, as `field:hash` pairs
+	 */
+	static hash(linkMetadata: LinkMetadata): string {
+		return CARD_FIELDS.flatMap((field) => {
+			const text = CardFields.text(linkMetadata, field);
+			return text ? [`${field}:${CardFields.hashText(text)}`] : [];
+		}).join(" ");
+	}
+
+	/**
+	 * Reads the hashes written by {@link CardFields.hash}.
+	 * @param fetchedHash - The `field:hash` pairs
+	 * @returns The hashes keyed by field
+	 */
+	static parseHashes(fetchedHash: string): Map<string, string> {
+		const hashes = new Map<string, string>();
+		for (const pair of fetchedHash.split(/\s+/)) {
+			const [field, hash] = pair.split(":");
+			if (field && hash) hashes.set(field, hash);
+		}
+		return hashes;
+	}
+
+	/**
+	 * Checks whether a field differs from the value it was fetched with.
+	 * @param linkMetadata - The card metadata
+	 * @param field - The field to check
+	 * @param hashes - The fetched hashes, from {@link CardFields.parseHashes}
+	 * @returns True if the field has a value that wasn't fetched
+	 */
+	static isEdited(
+		linkMetadata: LinkMetadata,
+		field: CardField,
+		hashes: Map<string, string>,
+	): boolean {
+		const text = CardFields.text(linkMetadata, field);
+		return !!text && CardFields.hashText(text) !== hashes.get(field);
+	}
+
+	/**
+	 * Computes a short FNV-1a hash of a field value.
+	 * @param text - The field value
+	 * @returns The hash as 8 hex characters
+	 */
+	private static hashText(text: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, "0");
+	}
+}
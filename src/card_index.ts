@@ -0,0 +1,151 @@
+/**
+ * @fileoverview In-memory index of every card in the vault.
+ * @module card_index
+ */
+
+import { type Debouncer, debounce, type TAbstractFile, TFile } from "obsidian";
+
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import type { LinkMetadata } from "src/interfaces";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * A card found in a note.
+ */
+export interface IndexedCard {
+	/** The note containing the card */
+	file: TFile;
+	/** Line number of the opening fence */
+	line: number;
+	/** The metadata of the card */
+	card: LinkMetadata;
+}
+
+/**
+ * Keeps a list of the cards of every note, updated as notes change.
+ * The vault is only read once the index is first needed, and listeners are
+ * notified, debounced, whenever the list changes.
+ */
+export class CardIndex {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** Cards keyed by note path */
+	private cards: Map<string, IndexedCard[]> = new Map();
+	/** Whether the vault has been indexed */
+	private built = false;
+	/** Called after the index changed */
+	private listeners: Set<() => void> = new Set();
+	/** Debounced notification so bursts of changes only re-render once */
+	private notify: Debouncer<[], void>;
+
+	/**
+	 * Creates a new CardIndex.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+		this.notify = debounce(
+			() => {
+				for (const listener of this.listeners) listener();
+			},
+			500,
+			true,
+		);
+	}
+
+	/**
+	 * Indexes every Markdown file of the vault unless already done.
+	 */
+	async build(): Promise<void> {
+		if (this.built) return;
+		this.built = true;
+		this.cards.clear();
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			this.index(file, await this.plugin.app.vault.cachedRead(file));
+		}
+		this.notify();
+	}
+
+	/**
+	 * Gets every indexed card.
+	 * @returns The cards in no particular order
+	 */
+	getAll(): IndexedCard[] {
+		return [...this.cards.values()].flat();
+	}
+
+	/**
+	 * Registers a function called after the index changed.
+	 * @param listener - The function to call
+	 * @returns A function that removes the listener
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Re-indexes a note after its content changed.
+	 * @param file - The changed note
+	 * @param data - The new content of the note
+	 */
+	update(file: TFile, data: string): void {
+		if (!this.built || file.extension !== "md") return;
+		const before = this.cards.get(file.path)?.length ?? 0;
+		this.index(file, data);
+		if (before > 0 || this.cards.has(file.path)) this.notify();
+	}
+
+	/**
+	 * Removes a deleted note from the index.
+	 * @param file - The deleted file
+	 */
+	remove(file: TAbstractFile): void {
+		if (this.cards.delete(file.path)) this.notify();
+	}
+
+	/**
+	 * Moves the cards of a renamed note to its new path.
+	 * @param file - The renamed file
+	 * @param oldPath - The previous path of the file
+	 */
+	rename(file: TAbstractFile, oldPath: string): void {
+		const cards = this.cards.get(oldPath);
+		if (!cards || !(file instanceof TFile)) return;
+
+		this.cards.delete(oldPath);
+		this.cards.set(
+			file.path,
+			cards.map((card) => ({ ...card, file })),
+		);
+		this.notify();
+	}
+
+	/**
+	 * Replaces the cards of a note with the cards found in its content.
+	 * Blocks that can't be parsed are left out.
+	 * @param file - The note
+	 * @param data - The content of the note
+	 */
+	private index(file: TFile, data: string): void {
+		const cards: IndexedCard[] = [];
+		for (const block of CardLinkBlocks.find(data)) {
+			try {
+				cards.push({
+					file,
+					line: block.startLine,
+					card: CardLinkSchema.parse(block.source),
+				});
+			} catch {
+				// invalid blocks are reported by the renderer
+			}
+		}
+
+		if (cards.length > 0) {
+			this.cards.set(file.path, cards);
+		} else {
+			this.cards.delete(file.path);
+		}
+	}
+}
@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Side panel listing every card in the vault.
+ * @module card_library_view
+ */
+
+import {
+	DropdownComponent,
+	getAllTags,
+	ItemView,
+	moment,
+	SearchComponent,
+	type ViewStateResult,
+	type WorkspaceLeaf,
+} from "obsidian";
+
+import type { IndexedCard } from "src/card_index";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { CheckIf } from "src/checkif";
+import { CodeBlockProcessor } from "src/code_block_processor";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Type id of the card library view.
+ */
+export const CARD_LIBRARY_VIEW_TYPE = "auto-card-link-library";
+
+/**
+ * Ways cards can be grouped in the library.
+ */
+type LibraryGroup = "none" | "host" | "tag" | "note";
+
+/**
+ * Orders cards can be listed in.
+ */
+type LibrarySort = "newest" | "oldest" | "title";
+
+/**
+ * Persisted state of the library view.
+ */
+interface LibraryState {
+	/** The search text */
+	query: string;
+	/** How cards are grouped */
+	group: LibraryGroup;
+	/** How cards are ordered */
+	sort: LibrarySort;
+}
+
+/**
+ * Lists the cards of every note with search, grouping and sorting.
+ * Clicking a card opens its note at the card; dragging a card into a note
+ * inserts a copy of it.
+ * @extends ItemView
+ */
+export class CardLibraryView extends ItemView {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** The current search, grouping and order */
+	private state: LibraryState = { query: "", group: "none", sort: "newest" };
+	/** Element the list is rendered into */
+	private listEl?: HTMLElement;
+	/** Removes the index listener when the view is closed */
+	private unsubscribe?: () => void;
+
+	/**
+	 * Creates a new CardLibraryView.
+	 * @param leaf - The leaf the view is opened in
+	 * @param plugin - The plugin instance
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: ObsidianAutoCardLink) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Gets the type id of the view.
+	 * @returns The view type
+	 */
+	getViewType(): string {
+		return CARD_LIBRARY_VIEW_TYPE;
+	}
+
+	/**
+	 * Gets the title shown in the tab header.
+	 * @returns The display text
+	 */
+	getDisplayText(): string {
+		return i18n.views.library.title;
+	}
+
+	/**
+	 * Gets the icon of the view.
+	 * @returns The icon id
+	 */
+	getIcon(): string {
+		return "library";
+	}
+
+	/**
+	 * Gets the state persisted with the workspace.
+	 * @returns The search, grouping and order
+	 */
+	getState(): Record<string, unknown> {
+		return { ...this.state };
+	}
+
+	/**
+	 * Restores the state persisted with the workspace.
+	 * @param state - The persisted state
+	 * @param result - The result of restoring the state
+	 */
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		this.state = { ...this.state, ...(state as Partial<LibraryState>) };
+		this.renderToolbar();
+		this.renderList();
+		await super.setState(state, result);
+	}
+
+	/**
+	 * Builds the index if needed and renders the library.
+	 */
+	async onOpen(): Promise<void> {
+		this.contentEl.addClass("auto-card-link-library-view");
+		this.renderToolbar();
+		this.unsubscribe = this.plugin.index.onChange(() => this.renderList());
+		await this.plugin.index.build();
+		this.renderList();
+	}
+
+	/**
+	 * Stops listening to the index.
+	 */
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+	}
+
+	/**
+	 * Renders the search box and the grouping and sorting dropdowns.
+	 */
+	private renderToolbar(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		const texts = i18n.views.library;
+
+		const toolbarEl = contentEl.createDiv("auto-card-link-library-toolbar");
+		new SearchComponent(toolbarEl)
+			.setPlaceholder(texts.search)
+			.setValue(this.state.query)
+			.onChange((value) => {
+				this.state.query = value;
+				this.renderList();
+			});
+
+		new DropdownComponent(toolbarEl)
+			.addOptions(texts.group)
+			.setValue(this.state.group)
+			.onChange((value) => {
+				this.state.group = value as LibraryGroup;
+				this.renderList();
+				this.app.workspace.requestSaveLayout();
+			});
+
+		new DropdownComponent(toolbarEl)
+			.addOptions(texts.sort)
+			.setValue(this.state.sort)
+			.onChange((value) => {
+				this.state.sort = value as LibrarySort;
+				this.renderList();
+				this.app.workspace.requestSaveLayout();
+			});
+
+		this.listEl = contentEl.createDiv("auto-card-link-library-list");
+	}
+
+	/**
+	 * Renders the cards matching the search, grouped and sorted.
+	 */
+	private renderList(): void {
+		const listEl = this.listEl;
+		if (!listEl) return;
+		listEl.empty();
+
+		const cards = this.sort(this.filter(this.plugin.index.getAll()));
+		if (cards.length === 0) {
+			listEl.createDiv({
+				cls: "auto-card-link-library-empty",
+				text: i18n.views.library.empty,
+			});
+			return;
+		}
+
+		if (this.state.group === "none") {
+			for (const card of cards) this.renderCard(listEl, card);
+			return;
+		}
+
+		const groups = new Map<string, IndexedCard[]>();
+		for (const card of cards) {
+			for (const key of this.getGroupKeys(card)) {
+				groups.set(key, [...(groups.get(key) ?? []), card]);
+			}
+		}
+		const keys = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+		for (const key of keys) {
+			const groupCards = groups.get(key) ?? [];
+			const detailsEl = listEl.createEl("details", {
+				cls: "auto-card-link-library-group",
+			});
+			detailsEl.open = true;
+			detailsEl.createEl("summary", {
+				text: `${key || i18n.views.library.ungrouped} (${groupCards.length})`,
+			});
+			for (const card of groupCards) this.renderCard(detailsEl, card);
+		}
+	}
+
+	/**
+	 * Renders a single card with its favicon, title and host.
+	 * @param parentEl - The element to render into
+	 * @param item - The card to render
+	 */
+	private renderCard(parentEl: HTMLElement, item: IndexedCard): void {
+		const { card } = item;
+		const itemEl = parentEl.createDiv("auto-card-link-library-item");
+		itemEl.draggable = true;
+		itemEl.setAttr("title", `${card.url}\n${item.file.path}`);
+
+		if (card.favicon) {
+			itemEl.createEl("img", {
+				cls: "auto-card-link-library-favicon",
+				attr: {
+					src: CheckIf.isUrl(card.favicon)
+						? card.favicon
+						: new CodeBlockProcessor(this.plugin).getLocalImagePath(
+								card.favicon,
+							),
+				},
+			});
+		}
+
+		const textEl = itemEl.createDiv("auto-card-link-library-text");
+		textEl.createDiv({ cls: "auto-card-link-library-title", text: card.title });
+		textEl.createDiv({
+			cls: "auto-card-link-library-host",
+			text: [card.siteName || card.host, CardLibraryView.getAdded(item)]
+				.filter((part) => part)
+				.join(" · "),
+		});
+
+		itemEl.addEventListener("click", () => {
+			this.app.workspace.getLeaf(false).openFile(item.file, {
+				eState: { line: item.line },
+			});
+		});
+		itemEl.addEventListener("dragstart", (evt) => {
+			evt.dataTransfer?.setData(
+				"text/plain",
+				[
+					"",
+					"```cardlink",
+					...CardLinkSchema.serialize({ ...card, indent: 0 }),
+					"```",
+					"",
+				].join("\n"),
+			);
+		});
+	}
+
+	/**
+	 * Keeps the cards whose title, url, host, description or note match the search.
+	 * @param cards - The cards to filter
+	 * @returns The matching cards
+	 */
+	private filter(cards: IndexedCard[]): IndexedCard[] {
+		const words = this.state.query.toLowerCase().split(/\s+/).filter(Boolean);
+		if (words.length === 0) return cards;
+
+		return cards.filter(({ card, file }) => {
+			const text = [
+				card.title,
+				card.url,
+				card.host,
+				card.siteName,
+				card.description,
+				file.path,
+			]
+				.join(" ")
+				.toLowerCase();
+			return words.every((word) => text.includes(word));
+		});
+	}
+
+	/**
+	 * Orders cards by creation date or title.
+	 * @param cards - The cards to order
+	 * @returns The ordered cards
+	 */
+	private sort(cards: IndexedCard[]): IndexedCard[] {
+		const sorted = [...cards];
+		if (this.state.sort === "title") {
+			return sorted.sort((a, b) => a.card.title.localeCompare(b.card.title));
+		}
+
+		const direction = this.state.sort === "newest" ? -1 : 1;
+		return sorted.sort(
+			(a, b) =>
+				direction *
+				CardLibraryView.getAdded(a).localeCompare(CardLibraryView.getAdded(b)),
+		);
+	}
+
+	/**
+	 * Gets the groups a card belongs to.
+	 * A card appears in the group of every tag of its note.
+	 * @param item - The card
+	 * @returns The group names, an empty name for cards without a group
+	 */
+	private getGroupKeys(item: IndexedCard): string[] {
+		switch (this.state.group) {
+			case "host":
+				return [item.card.host ?? ""];
+			case "note":
+				return [item.file.path];
+			case "tag": {
+				const cache = this.app.metadataCache.getFileCache(item.file);
+				const tags = cache ? (getAllTags(cache) ?? []) : [];
+				return tags.length > 0 ? [...new Set(tags)] : [""];
+			}
+			default:
+				return [""];
+		}
+	}
+
+	/**
+	 * Gets the creation date of a card.
+	 * Cards written before dates were recorded use the creation date of their note.
+	 * @param item - The card
+	 * @returns The date as YYYY-MM-DD
+	 */
+	private static getAdded(item: IndexedCard): string {
+		return item.card.added ?? moment(item.file.stat.ctime).format("YYYY-MM-DD");
+	}
+}
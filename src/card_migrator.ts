@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Upgrades cardlink blocks written with older versions of the format.
+ * @module card_migrator
+ */
+
+import { Notice, type TFile } from "obsidian";
+
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Rewrites outdated cardlink blocks in the current format.
+ * Blocks that can't be parsed are left untouched and reported.
+ */
+export class CardMigrator {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new CardMigrator.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Upgrades every outdated card in the given files.
+	 * @param files - The files to process
+	 */
+	async migrateFiles(files: TFile[]): Promise<void> {
+		let count = 0;
+		let failed = 0;
+
+		for (const file of files) {
+			const text = await this.plugin.app.vault.cachedRead(file);
+			if (
+				!CardLinkBlocks.find(text).some((block) =>
+					this.isOutdated(block.source),
+				)
+			) {
+				continue;
+			}
+
+			await this.plugin.app.vault.process(file, (data) => {
+				// Rewrite from the bottom so earlier line numbers stay valid
+				for (const block of CardLinkBlocks.find(data).reverse()) {
+					if (!this.isOutdated(block.source)) continue;
+
+					try {
+						const yamlLines = CardLinkSchema.serialize(
+							CardLinkSchema.parse(block.source),
+						);
+						data = CardLinkBlocks.replaceBody(data, block, yamlLines);
+						count++;
+					} catch (error) {
+						console.log(error);
+						failed++;
+					}
+				}
+				return data;
+			});
+		}
+
+		new Notice(
+			i18n.notices.migrateDone
+				.replace("{count}", String(count))
+				.replace("{failed}", String(failed)),
+		);
+	}
+
+	/**
+	 * Checks whether a block needs to be upgraded.
+	 * Blocks with broken YAML are treated as outdated, so they are reported.
+	 * @param source - The YAML source of the block
+	 * @returns True if the block should be rewritten
+	 */
+	private isOutdated(source: string): boolean {
+		try {
+			return CardLinkSchema.isOutdated(source);
+		} catch {
+			return true;
+		}
+	}
+}
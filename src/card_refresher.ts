@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Refreshes existing cardlink blocks with freshly fetched metadata.
+ * @module card_refresher
+ */
+
+import { Notice, type TFile } from "obsidian";
+
+import { CARD_FIELDS, CardFields } from "src/card_fields";
+import { type CardLinkBlock, CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { Concurrency } from "src/concurrency";
+import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+import { RefreshDiffModal } from "src/refresh_diff_modal";
+
+/**
+ * A pending change to a single cardlink block.
+ */
+export interface CardChange {
+	/** The file containing the block */
+	file: TFile;
+	/** The block as it was found when the change was computed */
+	block: CardLinkBlock;
+	/** The metadata currently in the block */
+	before: LinkMetadata;
+	/** The metadata that will be written */
+	after: LinkMetadata;
+}
+
+/**
+ * Re-fetches metadata for existing cards and rewrites their YAML in place.
+ */
+export class CardRefresher {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new CardRefresher.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Refreshes the card that contains the given line.
+	 * @param file - The file containing the card
+	 * @param line - Any line inside the card's code block
+	 */
+	async refreshBlockAt(file: TFile, line: number): Promise<void> {
+		const text = await this.plugin.app.vault.read(file);
+		const block = CardLinkBlocks.findAt(text, line);
+		if (!block) {
+			new Notice(i18n.notices.noCardFound);
+			return;
+		}
+
+		await this.refresh([{ file, blocks: [block] }]);
+	}
+
+	/**
+	 * Refreshes every card in a file.
+	 * @param file - The file to refresh
+	 */
+	async refreshFile(file: TFile): Promise<void> {
+		const text = await this.plugin.app.vault.read(file);
+		await this.refresh([{ file, blocks: CardLinkBlocks.find(text) }]);
+	}
+
+	/**
+	 * Refreshes every card in every Markdown file of the vault.
+	 */
+	async refreshVault(): Promise<void> {
+		const targets: { file: TFile; blocks: CardLinkBlock[] }[] = [];
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			const text = await this.plugin.app.vault.cachedRead(file);
+			const blocks = CardLinkBlocks.find(text);
+			if (blocks.length > 0) targets.push({ file, blocks });
+		}
+
+		await this.refresh(targets);
+	}
+
+	/**
+	 * Fetches new metadata for the given blocks and lets the user review the changes.
+	 * @param targets - The blocks to refresh, grouped by file
+	 */
+	private async refresh(
+		targets: { file: TFile; blocks: CardLinkBlock[] }[],
+	): Promise<void> {
+		const total = targets.reduce((sum, t) => sum + t.blocks.length, 0);
+		if (total === 0) {
+			new Notice(i18n.notices.noCardFound);
+			return;
+		}
+
+		const items = targets.flatMap(({ file, blocks }) =>
+			blocks.map((block) => ({ file, block })),
+		);
+		const notice = new Notice("", 0);
+		const results = await Concurrency.map(
+			items,
+			this.plugin.settings?.fetchConcurrency ?? 1,
+			({ file, block }) => this.buildChange(file, block),
+			(done) =>
+				notice.setMessage(
+					i18n.notices.refreshProgress
+						.replace("{done}", String(done))
+						.replace("{total}", String(total)),
+				),
+		);
+		notice.hide();
+
+		const changes = results.filter((change): change is CardChange => !!change);
+		const failed = results.filter((change) => change === undefined).length;
+
+		if (failed > 0) {
+			new Notice(i18n.notices.refreshFailed.replace("{count}", String(failed)));
+		}
+		if (changes.length === 0) {
+			new Notice(i18n.notices.refreshUpToDate);
+			return;
+		}
+
+		new RefreshDiffModal(this.plugin.app, changes, () =>
+			this.apply(changes),
+		).open();
+	}
+
+	/**
+	 * Computes the change for a single block.
+	 * @param file - The file containing the block
+	 * @param block - The block to refresh
+	 * @returns The change, null if nothing changed, or undefined if the block could not be refreshed
+	 */
+	private async buildChange(
+		file: TFile,
+		block: CardLinkBlock,
+	): Promise<CardChange | null | undefined> {
+		let before: LinkMetadata;
+		try {
+			before = CardLinkSchema.parse(block.source);
+		} catch (error) {
+			console.log(error);
+			return;
+		}
+		// links that may not be fetched are left as they are
+		if (!this.plugin.policy.allows(before.url, file)) return null;
+
+		// cards written before fetched hashes were stored fall back to the
+		// previous fetch result, read before it is overwritten by the new one
+		const previous = before.fetchedHash
+			? undefined
+			: this.plugin.cache.peek(before.url);
+		const fetched = await this.plugin.fetcher.fetch(before.url, {
+			bypassCache: true,
+		});
+		if (!fetched) return;
+
+		// hash the values as they are written, so localized images count as fetched
+		const written = this.plugin.settings?.localizeImages
+			? await this.plugin.localizer.localize(fetched)
+			: fetched;
+		const after = this.merge(before, CardFields.withHashes(written), previous);
+		if (
+			CARD_FIELDS.every(
+				(field) =>
+					CardFields.text(before, field) === CardFields.text(after, field),
+			)
+		) {
+			return null;
+		}
+		return { file, block, before, after };
+	}
+
+	/**
+	 * Merges fetched metadata into the current metadata of a block.
+	 * When enabled, fields that differ from the previously fetched values are
+	 * treated as edited by hand and kept. The previous values are known from
+	 * the fetched hashes stored in the block, or else from the cache.
+	 * @param before - The metadata currently in the block
+	 * @param fetched - The freshly fetched metadata
+	 * @param previous - The metadata fetched the last time, if still cached
+	 * @returns The metadata to write
+	 */
+	private merge(
+		before: LinkMetadata,
+		fetched: LinkMetadata,
+		previous: LinkMetadata | undefined,
+	): LinkMetadata {
+		const after = {
+			...fetched,
+			url: before.url,
+			layout: before.layout,
+			originalUrl: before.originalUrl,
+			added: before.added,
+			checked: before.checked,
+			// a successful refresh settles every state except pointing at an archived copy
+			status: before.status === "archived" ? before.status : undefined,
+			indent: before.indent,
+		};
+		const baseline =
+			(before.fetchedHash && CardFields.parseHashes(before.fetchedHash)) ||
+			(previous && CardFields.parseHashes(CardFields.hash(previous)));
+		if (!this.plugin.settings?.refreshKeepEditedFields || !baseline) {
+			return after;
+		}
+
+		for (const field of CARD_FIELDS) {
+			if (CardFields.isEdited(before, field, baseline)) {
+				Object.assign(after, { [field]: before[field] });
+			}
+		}
+		return after;
+	}
+
+	/**
+	 * Writes the reviewed changes to their files.
+	 * Blocks are located again so edits made during fetching are not lost.
+	 * @param changes - The changes to write
+	 */
+	private async apply(changes: CardChange[]): Promise<void> {
+		const byFile = new Map<TFile, CardChange[]>();
+		for (const change of changes) {
+			byFile.set(change.file, [...(byFile.get(change.file) ?? []), change]);
+		}
+
+		for (const [file, fileChanges] of byFile) {
+			await this.plugin.app.vault.process(file, (data) => {
+				// Rewrite from the bottom so earlier line numbers stay valid
+				const sorted = [...fileChanges].sort(
+					(a, b) => b.block.startLine - a.block.startLine,
+				);
+				for (const change of sorted) {
+					const blocks = CardLinkBlocks.find(data);
+					const block =
+						blocks.find(
+							(b) =>
+								b.startLine === change.block.startLine &&
+								b.source === change.block.source,
+						) ?? blocks.find((b) => b.source === change.block.source);
+					if (!block) continue;
+
+					data = CardLinkBlocks.replaceBody(
+						data,
+						block,
+						CardLinkSchema.serialize(change.after),
+					);
+				}
+				return data;
+			});
+		}
+
+		new Notice(
+			i18n.notices.refreshDone.replace("{count}", String(changes.length)),
+		);
+	}
+}
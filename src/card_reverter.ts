@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Converts cardlink blocks back into plain Markdown.
+ * @module card_reverter
+ */
+
+import { type Editor, Notice, type TFile } from "obsidian";
+
+import { type CardLinkBlock, CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+import { OutputTemplates } from "src/output_templates";
+
+/**
+ * Output formats a card can be converted back to.
+ */
+export type RevertFormat = "markdown" | "url" | "template";
+
+/**
+ * Replaces cardlink blocks with a Markdown link, a bare URL or a user template.
+ */
+export class CardReverter {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new CardReverter.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Reverts the cards touched by the selection, or the card under the cursor
+	 * if nothing is selected. Done as a single editor transaction so it can be undone.
+	 * @param editor - The Obsidian editor instance
+	 */
+	revertInEditor(editor: Editor): void {
+		const from = editor.getCursor("from").line;
+		const to = editor.getCursor("to").line;
+		const blocks = CardLinkBlocks.find(editor.getValue()).filter(
+			(block) => block.startLine <= to && from <= block.endLine,
+		);
+
+		const changes = blocks.flatMap((block) => {
+			const text = this.renderBlock(block);
+			if (text === undefined) return [];
+			return [
+				{
+					from: { line: block.startLine, ch: 0 },
+					to: {
+						line: block.endLine,
+						ch: editor.getLine(block.endLine).length,
+					},
+					text,
+				},
+			];
+		});
+		if (changes.length === 0) {
+			new Notice(i18n.notices.noCardFound);
+			return;
+		}
+
+		editor.transaction({ changes });
+		new Notice(
+			i18n.notices.revertDone.replace("{count}", String(changes.length)),
+		);
+	}
+
+	/**
+	 * Reverts every card in the given files.
+	 * @param files - The files to process
+	 */
+	async revertFiles(files: TFile[]): Promise<void> {
+		let count = 0;
+		for (const file of files) {
+			const text = await this.plugin.app.vault.cachedRead(file);
+			if (CardLinkBlocks.find(text).length === 0) continue;
+
+			await this.plugin.app.vault.process(file, (data) => {
+				const lines = data.split("\n");
+				// Replace from the bottom so earlier line numbers stay valid
+				for (const block of CardLinkBlocks.find(data).reverse()) {
+					const replacement = this.renderBlock(block);
+					if (replacement === undefined) continue;
+					lines.splice(
+						block.startLine,
+						block.endLine - block.startLine + 1,
+						replacement,
+					);
+					count++;
+				}
+				return lines.join("\n");
+			});
+		}
+
+		new Notice(
+			count > 0
+				? i18n.notices.revertDone.replace("{count}", String(count))
+				: i18n.notices.noCardFound,
+		);
+	}
+
+	/**
+	 * Renders the replacement text of a block, keeping its indentation.
+	 * @param block - The block to render
+	 * @returns The replacement text or undefined if the block is invalid
+	 */
+	private renderBlock(block: CardLinkBlock): string | undefined {
+		let linkMetadata: LinkMetadata;
+		try {
+			linkMetadata = CardLinkSchema.parse(block.source);
+		} catch (error) {
+			console.log(error);
+			return;
+		}
+
+		return this.render(linkMetadata)
+			.split("\n")
+			.map((line) => `${block.prefix}${line}`)
+			.join("\n");
+	}
+
+	/**
+	 * Renders metadata in the configured output format.
+	 * @param linkMetadata - The metadata of the card
+	 * @returns The Markdown text
+	 */
+	render(linkMetadata: LinkMetadata): string {
+		switch (this.plugin.settings?.revertFormat) {
+			case "url":
+				return linkMetadata.url;
+			case "template":
+				return OutputTemplates.render(
+					this.plugin.settings.revertTemplate || "{{url}}",
+					linkMetadata,
+				);
+			default: {
+				const title = linkMetadata.title.replace(/([[\]])/g, "\\$1");
+				return `[${title}](${linkMetadata.url})`;
+			}
+		}
+	}
+}
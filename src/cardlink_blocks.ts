@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Utilities for locating cardlink code blocks in Markdown text.
+ * @module cardlink_blocks
+ */
+
+/**
+ * A cardlink code block found in a Markdown document.
+ */
+export interface CardLinkBlock {
+	/** Line number of the opening fence */
+	startLine: number;
+	/** Line number of the closing fence */
+	endLine: number;
+	/** Whitespace preceding the opening fence, repeated on every line of the block */
+	prefix: string;
+	/** The YAML source between the fences, with the prefix removed */
+	source: string;
+}
+
+/**
+ * Regex pattern matching the opening fence of a cardlink code block.
+ * Captures the leading whitespace and the fence characters.
+ */
+const openingFenceRegex = /^([ \t]*)(`{3,}|~{3,})cardlink\s*$/;
+
+/**
+ * Regex pattern matching the opening fence of any fenced code block.
+ */
+const anyOpeningFenceRegex = /^[ \t]*(`{3,}|~{3,})/;
+
+/**
+ * Static utility class for finding and rewriting cardlink code blocks.
+ */
+export class CardLinkBlocks {
+	/**
+	 * Finds every closed cardlink code block in the given text.
+	 * @param text - The Markdown document content
+	 * @returns The blocks in document order
+	 */
+	public static find(text: string): CardLinkBlock[] {
+		const lines = text.split(/\r?\n/);
+		const blocks: CardLinkBlock[] = [];
+
+		for (let i = 0; i < lines.length; i++) {
+			const match = openingFenceRegex.exec(lines[i]);
+			if (!match) continue;
+
+			const [, prefix, fence] = match;
+			const end = CardLinkBlocks.findClosingFence(lines, i + 1, fence);
+			if (end < 0) break;
+
+			blocks.push({
+				startLine: i,
+				endLine: end,
+				prefix,
+				source: lines
+					.slice(i + 1, end)
+					.map((line) =>
+						line.startsWith(prefix) ? line.slice(prefix.length) : line,
+					)
+					.join("\n"),
+			});
+			i = end;
+		}
+
+		return blocks;
+	}
+
+	/**
+	 * Finds the block that contains the given line.
+	 * @param text - The Markdown document content
+	 * @param line - The line number to look for
+	 * @returns The enclosing block or undefined if the line is not inside one
+	 */
+	public static findAt(text: string, line: number): CardLinkBlock | undefined {
+		return CardLinkBlocks.find(text).find(
+			(block) => block.startLine <= line && line <= block.endLine,
+		);
+	}
+
+	/**
+	 * Collects the line numbers covered by fenced code blocks of any language,
+	 * including their fences. Unclosed blocks extend to the end of the document.
+	 * @param text - The Markdown document content
+	 * @returns The set of fenced line numbers
+	 */
+	public static findFencedLines(text: string): Set<number> {
+		const lines = text.split(/\r?\n/);
+		const fenced = new Set<number>();
+
+		for (let i = 0; i < lines.length; i++) {
+			const match = anyOpeningFenceRegex.exec(lines[i]);
+			if (!match) continue;
+
+			let end = CardLinkBlocks.findClosingFence(lines, i + 1, match[1]);
+			if (end < 0) end = lines.length - 1;
+			for (let j = i; j <= end; j++) fenced.add(j);
+			i = end;
+		}
+
+		return fenced;
+	}
+
+	/**
+	 * Checks whether a line opens or closes a fenced code block.
+	 * @param line - The line
+	 * @returns True if the line starts with a backtick or tilde fence
+	 */
+	public static isFence(line: string): boolean {
+		return anyOpeningFenceRegex.test(line);
+	}
+
+	/**
+	 * Replaces the YAML body of a block, keeping its fences and indentation.
+	 * @param text - The Markdown document content
+	 * @param block - The block to rewrite, as found in `text`
+	 * @param bodyLines - The new YAML lines, without indentation
+	 * @returns The updated document content
+	 */
+	public static replaceBody(
+		text: string,
+		block: CardLinkBlock,
+		bodyLines: string[],
+	): string {
+		const lines = text.split("\n");
+		lines.splice(
+			block.startLine + 1,
+			block.endLine - block.startLine - 1,
+			...bodyLines.map((line) => `${block.prefix}${line}`),
+		);
+		return lines.join("\n");
+	}
+
+	/**
+	 * Finds the line of the closing fence matching an opening fence.
+	 * @param lines - The document lines
+	 * @param from - The line to start searching from
+	 * @param fence - The opening fence characters
+	 * @returns The closing fence line or -1 if the block is not closed
+	 */
+	private static findClosingFence(
+		lines: string[],
+		from: number,
+		fence: string,
+	): number {
+		for (let i = from; i < lines.length; i++) {
+			const trimmed = lines[i].trim();
+			if (
+				trimmed.length >= fence.length &&
+				trimmed === fence[0].repeat(trimmed.length)
+			) {
+				return i;
+			}
+		}
+		return -1;
+	}
+}
@@ -0,0 +1,348 @@
+/**
+ * @fileoverview Schema, parser and serializer of the cardlink code block format.
+ * @module cardlink_schema
+ */
+
+import { parseYaml } from "obsidian";
+
+import {
+	InvalidValueError,
+	NoRequiredParamsError,
+	UnknownKeyError,
+	UnsupportedVersionError,
+	YamlParseError,
+} from "src/errors";
+import {
+	CARD_KINDS,
+	CARD_LAYOUTS,
+	CARD_STATUSES,
+	type LinkMetadata,
+} from "src/interfaces";
+
+/**
+ * Current version of the block format, written as the `version` key.
+ * Blocks without a version key are version 0.
+ */
+export const CARDLINK_VERSION = 1;
+
+/**
+ * A key of the cardlink block and the metadata property it maps to.
+ */
+interface CardLinkField {
+	/** The YAML key */
+	key: string;
+	/** The metadata property */
+	property: Exclude<keyof LinkMetadata, "indent" | "canonicalUrl">;
+	/** The expected value type */
+	type: "string" | "number" | "list" | "enum";
+	/** The allowed values of an enum field */
+	values?: readonly string[];
+	/** Whether the block is invalid without this key */
+	required?: boolean;
+}
+
+/**
+ * Keys of the block, in the order they are written.
+ */
+const fields: CardLinkField[] = [
+	{ key: "url", property: "url", type: "string", required: true },
+	{ key: "title", property: "title", type: "string", required: true },
+	{ key: "description", property: "description", type: "string" },
+	{ key: "host", property: "host", type: "string" },
+	{ key: "site_name", property: "siteName", type: "string" },
+	{ key: "author", property: "author", type: "string" },
+	{ key: "published", property: "published", type: "string" },
+	{ key: "type", property: "type", type: "string" },
+	{ key: "badges", property: "badges", type: "list" },
+	{ key: "kind", property: "kind", type: "enum", values: CARD_KINDS },
+	{ key: "mime_type", property: "mimeType", type: "string" },
+	{ key: "size", property: "size", type: "number" },
+	{ key: "width", property: "width", type: "number" },
+	{ key: "height", property: "height", type: "number" },
+	{ key: "pages", property: "pages", type: "number" },
+	{ key: "layout", property: "layout", type: "enum", values: CARD_LAYOUTS },
+	{ key: "status", property: "status", type: "enum", values: CARD_STATUSES },
+	{ key: "added", property: "added", type: "string" },
+	{ key: "checked", property: "checked", type: "string" },
+	{ key: "original_url", property: "originalUrl", type: "string" },
+	{ key: "fetched_hash", property: "fetchedHash", type: "string" },
+	{ key: "favicon", property: "favicon", type: "string" },
+	{ key: "image", property: "image", type: "string" },
+];
+
+/**
+ * Upgrades the raw YAML of a block by one version, keyed by the version it upgrades from.
+ * Version 0 blocks have the same keys as version 1; only the way values are
+ * quoted changed, which the serializer takes care of.
+ */
+const migrations: Record<
+	number,
+	(yaml: Record<string, unknown>) => Record<string, unknown>
+> = {
+	0: (yaml) => yaml,
+};
+
+/**
+ * Static utility class for reading and writing cardlink blocks.
+ */
+export class CardLinkSchema {
+	/**
+	 * Parses and validates the source of a cardlink block.
+	 * Blocks written with older versions are upgraded in memory.
+	 * @param source - The YAML source of the block, without fences
+	 * @returns The card metadata
+	 * @throws {YamlParseError} When the source isn't valid YAML
+	 * @throws {UnsupportedVersionError} When the block is newer than this plugin
+	 * @throws {UnknownKeyError} When the block contains keys outside the schema
+	 * @throws {InvalidValueError} When a value has the wrong type
+	 * @throws {NoRequiredParamsError} When url or title is missing
+	 */
+	public static parse(source: string): LinkMetadata {
+		const { yaml, indent } = CardLinkSchema.parseYaml(source);
+		const version = CardLinkSchema.getVersion(yaml);
+
+		let upgraded = yaml;
+		for (let v = version; v < CARDLINK_VERSION; v++) {
+			upgraded = migrations[v](upgraded);
+		}
+
+		const unknownKeys = Object.keys(upgraded).filter(
+			(key) => key !== "version" && !fields.some((field) => field.key === key),
+		);
+		if (unknownKeys.length > 0) {
+			throw new UnknownKeyError(
+				`unknown key(s): ${unknownKeys
+					.map((key) => {
+						const suggestion = CardLinkSchema.suggestKey(key);
+						return suggestion ? `${key} (did you mean ${suggestion}?)` : key;
+					})
+					.join(", ")}.`,
+			);
+		}
+
+		const linkMetadata: Partial<LinkMetadata> = { indent };
+		for (const field of fields) {
+			const value = CardLinkSchema.readValue(field, upgraded[field.key]);
+			if (value !== undefined) {
+				Object.assign(linkMetadata, { [field.property]: value });
+			}
+		}
+
+		if (!linkMetadata.url || !linkMetadata.title) {
+			throw new NoRequiredParamsError(
+				"required params[url, title] are not found.",
+			);
+		}
+		return linkMetadata as LinkMetadata;
+	}
+
+	/**
+	 * Serializes card metadata into the YAML lines of a block, without fences.
+	 * Every text value is written as a double-quoted string, so any character round-trips.
+	 * @param linkMetadata - The metadata to serialize
+	 * @returns The YAML lines
+	 */
+	public static serialize(linkMetadata: LinkMetadata): string[] {
+		const yamlLines = [`version: ${CARDLINK_VERSION}`];
+		for (const field of fields) {
+			const value = linkMetadata[field.property];
+			if (value === undefined || value === "") continue;
+
+			if (Array.isArray(value)) {
+				if (value.length === 0) continue;
+				yamlLines.push(
+					`${field.key}: [${value.map((item) => JSON.stringify(item)).join(", ")}]`,
+				);
+			} else if (field.type === "enum" || field.type === "number") {
+				yamlLines.push(`${field.key}: ${value}`);
+			} else {
+				yamlLines.push(`${field.key}: ${JSON.stringify(value)}`);
+			}
+		}
+		return yamlLines;
+	}
+
+	/**
+	 * Checks whether a block was written with an older version of the format.
+	 * @param source - The YAML source of the block
+	 * @returns True if the block should be migrated
+	 * @throws {YamlParseError} When the source isn't valid YAML
+	 * @throws {InvalidValueError} When the version isn't a number
+	 */
+	public static isOutdated(source: string): boolean {
+		const { yaml } = CardLinkSchema.parseYaml(source);
+		return CardLinkSchema.getVersion(yaml) < CARDLINK_VERSION;
+	}
+
+	/**
+	 * Parses the YAML of a block.
+	 * Handles tab-to-space conversion for YAML compatibility.
+	 * @param source - The raw YAML source string
+	 * @returns The parsed mapping and the indentation of the block in tabs (-1 if none)
+	 * @throws {YamlParseError} When parsing fails or the source isn't a mapping
+	 */
+	private static parseYaml(source: string): {
+		yaml: Record<string, unknown>;
+		indent: number;
+	} {
+		let indent = -1;
+		source = source
+			.split(/\r?\n|\r|\n/g)
+			.map((line) =>
+				line.replace(/^\t+/g, (tabs) => {
+					const n = tabs.length;
+					if (indent < 0) {
+						indent = n;
+					}
+					return " ".repeat(n);
+				}),
+			)
+			.join("\n");
+
+		let yaml: unknown;
+		try {
+			yaml = parseYaml(source);
+		} catch (error) {
+			console.log(error);
+			throw new YamlParseError(
+				"failed to parse yaml. Check debug console for more detail.",
+			);
+		}
+
+		if (yaml === null || yaml === undefined) {
+			throw new NoRequiredParamsError(
+				"required params[url, title] are not found.",
+			);
+		}
+		if (typeof yaml !== "object" || Array.isArray(yaml)) {
+			throw new YamlParseError("the block must be a list of key: value pairs.");
+		}
+		return { yaml: yaml as Record<string, unknown>, indent };
+	}
+
+	/**
+	 * Reads the version of a block.
+	 * @param yaml - The parsed block
+	 * @returns The version, 0 if the block has none
+	 * @throws {InvalidValueError} When the version isn't a whole number
+	 * @throws {UnsupportedVersionError} When the version is newer than this plugin supports
+	 */
+	private static getVersion(yaml: Record<string, unknown>): number {
+		const version = yaml.version ?? 0;
+		if (typeof version !== "number" || !Number.isInteger(version)) {
+			throw new InvalidValueError("version must be a whole number.");
+		}
+		if (version > CARDLINK_VERSION) {
+			throw new UnsupportedVersionError(
+				`this block uses version ${version} of the format, but this version of Auto Card Link only supports up to ${CARDLINK_VERSION}. Update the plugin.`,
+			);
+		}
+		return version;
+	}
+
+	/**
+	 * Validates and converts a single value.
+	 * Numbers, booleans and dates in text fields are accepted as text.
+	 * @param field - The field being read
+	 * @param value - The raw YAML value
+	 * @returns The converted value or undefined if the key is empty
+	 * @throws {InvalidValueError} When the value has the wrong type
+	 */
+	private static readValue(
+		field: CardLinkField,
+		value: unknown,
+	): string | string[] | number | undefined {
+		if (value === null || value === undefined || value === "") return;
+
+		switch (field.type) {
+			case "number":
+				if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+					throw new InvalidValueError(`${field.key} must be a number.`);
+				}
+				return value;
+			case "list":
+				if (!Array.isArray(value)) {
+					throw new InvalidValueError(
+						`${field.key} must be a list, e.g. ["first", "second"].`,
+					);
+				}
+				return value.map((item) => CardLinkSchema.toText(field, item));
+			case "enum": {
+				const values = field.values ?? [];
+				if (typeof value !== "string" || !values.includes(value)) {
+					throw new InvalidValueError(
+						`${field.key} must be one of ${values.join(", ")}.`,
+					);
+				}
+				return value;
+			}
+			default:
+				return CardLinkSchema.toText(field, value);
+		}
+	}
+
+	/**
+	 * Converts a scalar value to text.
+	 * @param field - The field being read
+	 * @param value - The raw YAML value
+	 * @returns The text
+	 * @throws {InvalidValueError} When the value is a list or a mapping
+	 */
+	private static toText(field: CardLinkField, value: unknown): string {
+		if (value instanceof Date) return value.toISOString().slice(0, 10);
+		if (
+			typeof value === "string" ||
+			typeof value === "number" ||
+			typeof value === "boolean"
+		) {
+			return String(value);
+		}
+
+		// [[image.png]] without quotes is read as a nested list
+		const hint =
+			field.key === "favicon" || field.key === "image"
+				? " Internal links must be surrounded by quotes."
+				: "";
+		throw new InvalidValueError(`${field.key} must be text.${hint}`);
+	}
+
+	/**
+	 * Finds the known key closest to a misspelled one.
+	 * @param key - The unknown key
+	 * @returns The suggested key or undefined if none is close
+	 */
+	private static suggestKey(key: string): string | undefined {
+		let best: string | undefined;
+		let bestDistance = 3;
+		for (const field of fields) {
+			const distance = CardLinkSchema.distance(key.toLowerCase(), field.key);
+			if (distance < bestDistance) {
+				best = field.key;
+				bestDistance = distance;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Computes the Levenshtein distance between two strings.
+	 * @param a - The first string
+	 * @param b - The second string
+	 * @returns The number of edits needed to turn one into the other
+	 */
+	private static distance(a: string, b: string): number {
+		let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+		for (let i = 1; i <= a.length; i++) {
+			const current = [i];
+			for (let j = 1; j <= b.length; j++) {
+				current[j] = Math.min(
+					previous[j] + 1,
+					current[j - 1] + 1,
+					previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+				);
+			}
+			previous = current;
+		}
+		return previous[b.length];
+	}
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Decoding of fetched pages according to their character set.
+ * @module charset_decoder
+ */
+
+/**
+ * Number of bytes searched for a `<meta charset>` declaration, as in the HTML spec's prescan.
+ */
+const PRESCAN_LENGTH = 1024;
+
+/**
+ * Legacy encodings tried, in order, when a page doesn't declare its charset
+ * and isn't valid UTF-8.
+ */
+const SNIFF_CANDIDATES = ["shift_jis", "euc-jp", "gbk", "big5", "euc-kr"];
+
+/**
+ * Charset names used by servers that TextDecoder doesn't know.
+ */
+const charsetAliases: Record<string, string> = {
+	cp932: "shift_jis",
+	ms932: "shift_jis",
+	"x-sjis": "shift_jis",
+	"x-euc-jp": "euc-jp",
+	cp936: "gbk",
+	ms936: "gbk",
+	cp949: "euc-kr",
+	cp1252: "windows-1252",
+};
+
+/**
+ * Static utility class for turning response bodies into text.
+ */
+export class CharsetDecoder {
+	/**
+	 * Decodes a response body.
+	 * The encoding is taken from the byte order mark, then the `Content-Type` header,
+	 * then `<meta charset>` / `http-equiv`, and is sniffed as a last resort.
+	 * @param data - The raw response body
+	 * @param contentType - The value of the `Content-Type` response header
+	 * @returns The decoded text
+	 */
+	public static decode(data: ArrayBuffer, contentType?: string): string {
+		const bytes = new Uint8Array(data);
+		const encoding =
+			CharsetDecoder.fromBom(bytes) ??
+			CharsetDecoder.fromContentType(contentType) ??
+			CharsetDecoder.fromMeta(bytes) ??
+			CharsetDecoder.sniff(bytes);
+		return new TextDecoder(encoding).decode(bytes);
+	}
+
+	/**
+	 * Detects the encoding from a byte order mark.
+	 * @param bytes - The response body
+	 * @returns The encoding or undefined if there is no BOM
+	 */
+	private static fromBom(bytes: Uint8Array): string | undefined {
+		if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+			return "utf-8";
+		}
+		if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+		if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+	}
+
+	/**
+	 * Reads the charset parameter of a `Content-Type` value.
+	 * @param contentType - The header value
+	 * @returns A supported encoding or undefined
+	 */
+	private static fromContentType(
+		contentType: string | undefined,
+	): string | undefined {
+		const charset = /charset\s*=\s*["']?([\w.:-]+)/i.exec(
+			contentType ?? "",
+		)?.[1];
+		return CharsetDecoder.normalize(charset);
+	}
+
+	/**
+	 * Looks for `<meta charset>`, `<meta http-equiv="Content-Type">` or an XML
+	 * declaration at the start of the document.
+	 * @param bytes - The response body
+	 * @returns A supported encoding or undefined
+	 */
+	private static fromMeta(bytes: Uint8Array): string | undefined {
+		// Every encoding we detect is ASCII-compatible, so the markup can be read as latin1
+		const head = new TextDecoder("windows-1252").decode(
+			bytes.subarray(0, PRESCAN_LENGTH),
+		);
+
+		const charset =
+			/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1] ??
+			/<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)/i.exec(head)?.[1];
+		const encoding = CharsetDecoder.normalize(charset);
+
+		// A page can't really be UTF-16 if its markup was readable as ASCII
+		if (encoding?.startsWith("utf-16")) return "utf-8";
+		return encoding;
+	}
+
+	/**
+	 * Guesses the encoding of an undeclared document.
+	 * Valid UTF-8 wins; otherwise the legacy CJK encoding that decodes without
+	 * errors and produces the most plausible text is used, falling back to Windows-1252.
+	 * @param bytes - The response body
+	 * @returns The guessed encoding
+	 */
+	private static sniff(bytes: Uint8Array): string {
+		if (CharsetDecoder.decodesCleanly(bytes, "utf-8")) return "utf-8";
+
+		let best = "windows-1252";
+		let bestScore = 0;
+		for (const candidate of SNIFF_CANDIDATES) {
+			if (!CharsetDecoder.decodesCleanly(bytes, candidate)) continue;
+
+			const score = CharsetDecoder.score(
+				new TextDecoder(candidate).decode(bytes),
+				candidate,
+			);
+			if (score > bestScore) {
+				best = candidate;
+				bestScore = score;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Checks whether bytes are valid in an encoding.
+	 * @param bytes - The bytes to check
+	 * @param encoding - The encoding to try
+	 * @returns True if decoding raised no error
+	 */
+	private static decodesCleanly(bytes: Uint8Array, encoding: string): boolean {
+		try {
+			new TextDecoder(encoding, { fatal: true }).decode(bytes);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Scores how much decoded text looks like natural text in the encoding's language.
+	 * Japanese almost always contains kana and Korean mostly Hangul, while
+	 * half-width katakana, control or private use characters mean the wrong
+	 * encoding was used.
+	 * @param text - The decoded text
+	 * @param encoding - The encoding the text was decoded with
+	 * @returns The score, higher is more plausible
+	 */
+	private static score(text: string, encoding: string): number {
+		let kana = 0;
+		let hangul = 0;
+		let han = 0;
+		let junk = 0;
+		for (const char of text) {
+			const code = char.codePointAt(0) ?? 0;
+			if (code >= 0x3040 && code <= 0x30ff) kana++;
+			else if (code >= 0xac00 && code <= 0xd7a3) hangul++;
+			else if (code >= 0x4e00 && code <= 0x9fff) han++;
+			else if (code >= 0xff61 && code <= 0xff9f) junk++;
+			else if (code >= 0xe000 && code <= 0xf8ff) junk++;
+			else if (code < 0x20 && !"\t\n\r".includes(char)) junk++;
+		}
+
+		switch (encoding) {
+			case "shift_jis":
+			case "euc-jp":
+				return (kana > 0 ? kana * 3 + han : 0) - junk * 5;
+			case "euc-kr":
+				return hangul * 3 - han * 2 - junk * 5;
+			default:
+				return han * 2 - hangul * 2 - junk * 5;
+		}
+	}
+
+	/**
+	 * Maps a charset label to an encoding TextDecoder supports.
+	 * @param charset - The declared charset
+	 * @returns The encoding label, or undefined if it isn't supported
+	 */
+	private static normalize(charset: string | undefined): string | undefined {
+		if (!charset) return;
+
+		const label = charset.trim().toLowerCase();
+		const encoding = charsetAliases[label] ?? label;
+		try {
+			return new TextDecoder(encoding).encoding;
+		} catch {
+			return;
+		}
+	}
+}
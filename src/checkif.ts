@@ -3,7 +3,7 @@
  * @module checkif
  */
 
-import { imageRegex, linkRegex, urlRegex } from "src/regex";
+import { linkRegex, urlRegex } from "src/regex";
 
 /**
  * Static utility class for checking URL and link types.
@@ -19,16 +19,6 @@ export class CheckIf {
 		return regex.test(text);
 	}
 
-	/**
-	 * Checks if the given text is an image URL based on file extension.
-	 * @param text - The text to validate
-	 * @returns True if the text ends with an image file extension
-	 */
-	public static isImage(text: string): boolean {
-		const regex = new RegExp(imageRegex);
-		return regex.test(text);
-	}
-
 	/**
 	 * Checks if the given text is a Markdown-formatted link.
 	 * @param text - The text to validate
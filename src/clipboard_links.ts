@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Detection of the links in pasted text.
+ * @module clipboard_links
+ */
+
+import { BulkConverter } from "src/bulk_converter";
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { lineRegex, linkLineRegex } from "src/regex";
+
+/**
+ * Which links of pasted text are converted: only lines that contain nothing
+ * but a link, or every link wherever it appears.
+ */
+export type PasteLinkMode = "lines" | "every";
+
+/**
+ * A link found in pasted text.
+ */
+export interface ClipboardLink {
+	/** Offset of the first character of the link */
+	start: number;
+	/** Offset after the last character of the link */
+	end: number;
+	/** The URL of the link */
+	url: string;
+}
+
+/**
+ * Static utility class for finding the links of pasted text.
+ */
+export class ClipboardLinks {
+	/**
+	 * Finds the links of pasted text.
+	 * Markdown links are found as a whole; code blocks and image embeds are skipped.
+	 * @param text - The pasted text
+	 * @param mode - Which links to find
+	 * @returns The links in text order
+	 */
+	public static find(text: string, mode: PasteLinkMode): ClipboardLink[] {
+		const lineStarts: number[] = [];
+		let offset = 0;
+		for (const line of text.split("\n")) {
+			lineStarts.push(offset);
+			offset += line.length + 1;
+		}
+
+		if (mode === "lines") {
+			return BulkConverter.findStandaloneLinks(text).map((link) => {
+				const start = lineStarts[link.line] + link.prefix.length;
+				return {
+					start,
+					end: start + link.text.trim().length,
+					url: link.url,
+				};
+			});
+		}
+
+		const skipped = CardLinkBlocks.findFencedLines(text);
+		const links: ClipboardLink[] = [];
+		text.split("\n").forEach((line, i) => {
+			if (skipped.has(i)) return;
+			links.push(
+				...ClipboardLinks.findInLine(line).map((link) => ({
+					...link,
+					start: lineStarts[i] + link.start,
+					end: lineStarts[i] + link.end,
+				})),
+			);
+		});
+		return links;
+	}
+
+	/**
+	 * Finds the Markdown links and bare URLs of a single line.
+	 * @param line - The line to search
+	 * @returns The links with offsets relative to the line
+	 */
+	private static findInLine(line: string): ClipboardLink[] {
+		const links: ClipboardLink[] = [];
+		// image embeds are kept as they are, including the URL inside them
+		const embeds: ClipboardLink[] = [];
+
+		for (const match of line.matchAll(new RegExp(linkLineRegex))) {
+			const start = match.index ?? 0;
+			const link = { start, end: start + match[0].length, url: match[2] };
+			(line[start - 1] === "!" ? embeds : links).push(link);
+		}
+
+		for (const match of line.matchAll(new RegExp(lineRegex))) {
+			const start = match.index ?? 0;
+			if (
+				[...links, ...embeds].some(
+					(link) => link.start <= start && start < link.end,
+				)
+			) {
+				continue;
+			}
+			const url = ClipboardLinks.trimPunctuation(match[0]);
+			links.push({ start, end: start + url.length, url });
+		}
+
+		return links.sort((a, b) => a.start - b.start);
+	}
+
+	/**
+	 * Removes punctuation that ends the sentence around a URL rather than the URL itself.
+	 * A closing parenthesis is kept when the URL contains the opening one.
+	 * @param url - The URL as matched
+	 * @returns The URL without trailing punctuation
+	 */
+	private static trimPunctuation(url: string): string {
+		let trimmed = url.replace(/[.,;:!?'"*_>]+$/, "");
+		while (
+			trimmed.endsWith(")") &&
+			(trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)
+		) {
+			trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"*_>]+$/, "");
+		}
+		return trimmed;
+	}
+}
@@ -3,10 +3,19 @@
  * @module code_block_generator
  */
 
-import { type Editor, Notice, requestUrl } from "obsidian";
-import { EditorExtensions } from "src/editor_enhancements";
+import { type Editor, moment, Notice } from "obsidian";
+import { CardFields } from "src/card_fields";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { ClipboardLinks } from "src/clipboard_links";
+import { Concurrency } from "src/concurrency";
+import { FetchPolicy } from "src/fetch_policy";
 import type { LinkMetadata } from "src/interfaces";
-import { LinkMetadataParser } from "src/link_metadata_parser";
+import { i18n } from "src/lang/i18n";
+import type { FetchFailure } from "src/link_metadata_fetcher";
+import type ObsidianAutoCardLink from "src/main";
+import { CARDLINK_TEMPLATE_ID, OutputTemplates } from "src/output_templates";
+import { PendingQueue } from "src/pending_queue";
+import { PlaceholderTracker, type TrackedPaste } from "src/placeholder_tracker";
 
 /**
  * Generates cardlink code blocks by fetching metadata from URLs.
@@ -14,110 +23,298 @@ import { LinkMetadataParser } from "src/link_metadata_parser";
 export class CodeBlockGenerator {
 	/** Reference to the Obsidian editor instance */
 	editor: Editor;
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
 
 	/**
 	 * Creates a new CodeBlockGenerator.
 	 * @param editor - The Obsidian editor instance
+	 * @param plugin - The plugin instance
 	 */
-	constructor(editor: Editor) {
+	constructor(editor: Editor, plugin: ObsidianAutoCardLink) {
 		this.editor = editor;
+		this.plugin = plugin;
 	}
 
 	/**
-	 * Converts a URL to a cardlink code block.
+	 * Converts a URL to a cardlink code block or the output of a template.
 	 * Shows a placeholder while fetching, then replaces with the code block.
+	 * The paste and the replacement are undone in a single step. Links that
+	 * may not be fetched are written as a plain card right away.
 	 * @param url - The URL to convert
+	 * @param localizeImages - Whether to download the favicon and image into the vault
+	 * @param templateId - The output template to use, defaults to the one chosen in settings
 	 */
-	async convertUrlToCodeBlock(url: string): Promise<void> {
-		const selectedText = this.editor.getSelection();
+	async convertUrlToCodeBlock(
+		url: string,
+		localizeImages = this.plugin.settings?.localizeImages ?? false,
+		templateId = this.plugin.settings?.defaultTemplate ?? CARDLINK_TEMPLATE_ID,
+	): Promise<void> {
+		if (!this.isAllowed(url)) {
+			this.editor.replaceSelection(
+				this.genOutput(FetchPolicy.plainCard(url), templateId),
+			);
+			return;
+		}
 
-		// Generate a unique id for find/replace operations.
-		const pasteId = this.createBlockHash();
-		const fetchingText = `[Fetching Data#${pasteId}](${url})`;
+		const selectedText = this.editor.getSelection();
+		const fetchingText = this.genFetchingText(url);
 
 		// Instantly paste so you don't wonder if paste is broken
-		this.editor.replaceSelection(fetchingText);
+		const paste = this.plugin.placeholders.insert(this.editor, fetchingText, [
+			fetchingText,
+		]);
+
+		await this.replaceFetchingText(
+			paste,
+			url,
+			fetchingText,
+			selectedText || url,
+			localizeImages,
+			templateId,
+		);
+	}
+
+	/**
+	 * Pastes text containing several links, converting each of them.
+	 * The text is pasted at once with a placeholder per link, and the links
+	 * are fetched in parallel; the rest of the text is kept as it is. Links
+	 * that may not be fetched are written as plain cards.
+	 * @param text - The pasted text
+	 * @param localizeImages - Whether to download the favicons and images into the vault
+	 * @param templateId - The output template to use, defaults to the one chosen in settings
+	 * @param mode - Which links to convert, defaults to the one chosen in settings
+	 * @returns False if the text contains no link, in which case nothing is pasted
+	 */
+	async convertLinksInText(
+		text: string,
+		localizeImages = this.plugin.settings?.localizeImages ?? false,
+		templateId = this.plugin.settings?.defaultTemplate ?? CARDLINK_TEMPLATE_ID,
+		mode = this.plugin.settings?.pasteLinkMode ?? "lines",
+	): Promise<boolean> {
+		const normalized = text.replace(/\r\n?/g, "\n");
+		const links = ClipboardLinks.find(normalized, mode);
+		if (links.length === 0) return false;
+
+		let pasted = "";
+		let last = 0;
+		const jobs: { url: string; fetchingText: string; original: string }[] = [];
+		for (const link of links) {
+			pasted += normalized.slice(last, link.start);
+			last = link.end;
+			if (!this.isAllowed(link.url)) {
+				pasted += this.genOutput(FetchPolicy.plainCard(link.url), templateId);
+				continue;
+			}
+
+			const fetchingText = this.genFetchingText(link.url);
+			pasted += fetchingText;
+			jobs.push({
+				url: link.url,
+				fetchingText,
+				original: normalized.slice(link.start, link.end),
+			});
+		}
+		pasted += normalized.slice(last);
 
-		const linkMetadata = await this.fetchLinkMetadata(url);
+		if (jobs.length === 0) {
+			this.editor.replaceSelection(pasted);
+			return true;
+		}
+
+		const paste = this.plugin.placeholders.insert(
+			this.editor,
+			pasted,
+			jobs.map((job) => job.fetchingText),
+		);
 
-		const text = this.editor.getValue();
-		const start = text.indexOf(fetchingText);
+		// list every link up front, so links still waiting for their turn can
+		// be cancelled too
+		const queued = jobs.map((job) => ({
+			...job,
+			start: this.plugin.fetches.queue(job.url, () => {
+				this.plugin.placeholders.replace(paste, job.fetchingText, job.original);
+			}),
+		}));
+		await Concurrency.map(
+			queued,
+			this.plugin.settings?.fetchConcurrency ?? 1,
+			async (job) => {
+				if (!job.start()) return;
+				await this.replaceFetchingText(
+					paste,
+					job.url,
+					job.fetchingText,
+					job.original,
+					localizeImages,
+					templateId,
+				);
+			},
+		);
+		return true;
+	}
 
-		if (start < 0) {
-			console.log(
-				`Unable to find text "${fetchingText}" in current editor, bailing out; link ${url}`,
+	/**
+	 * Fetches the metadata of a link and replaces its placeholder with the output.
+	 * If the fetch is cancelled, the placeholder is reverted to the fallback.
+	 * Links that fail are queued for later, except for links the fetch policy
+	 * denies, which become plain cards, and sites that serve a bot check or
+	 * login page, which are reported and reverted to the fallback.
+	 * @param paste - The paste the placeholder belongs to
+	 * @param url - The URL of the link
+	 * @param fetchingText - The placeholder in the editor
+	 * @param fallback - Text restored if the link is cancelled or can't be queued for later
+	 * @param localizeImages - Whether to download the favicon and image into the vault
+	 * @param templateId - The output template to use
+	 */
+	private async replaceFetchingText(
+		paste: TrackedPaste,
+		url: string,
+		fetchingText: string,
+		fallback: string,
+		localizeImages: boolean,
+		templateId: string,
+	): Promise<void> {
+		let cancelled = false;
+		let failure: FetchFailure | undefined;
+		let linkMetadata = await this.plugin.fetcher.fetch(url, {
+			onCancel: () => {
+				cancelled = true;
+				this.plugin.placeholders.replace(paste, fetchingText, fallback);
+			},
+			onFailure: (reason) => {
+				failure = reason;
+			},
+		});
+		if (cancelled) return;
+		if (linkMetadata) {
+			linkMetadata = this.plugin.normalizer.apply(linkMetadata);
+		}
+		if (linkMetadata && localizeImages) {
+			linkMetadata = await this.plugin.localizer.localize(linkMetadata);
+		}
+
+		if (!linkMetadata && failure === "denied") {
+			await this.plugin.placeholders.replace(
+				paste,
+				fetchingText,
+				this.genOutput(FetchPolicy.plainCard(url), templateId),
 			);
 			return;
 		}
+		if (!linkMetadata && failure === "interstitial") {
+			new Notice(i18n.notices.fetchInterstitial.replace("{url}", url));
+			await this.plugin.placeholders.replace(paste, fetchingText, fallback);
+			return;
+		}
 
-		const end = start + fetchingText.length;
-		const startPos = EditorExtensions.getEditorPositionFromIndex(text, start);
-		const endPos = EditorExtensions.getEditorPositionFromIndex(text, end);
-
-		// if failed to link metadata, show notification and revert
+		// if failed to link metadata, leave a placeholder card that is retried later
 		if (!linkMetadata) {
-			new Notice("Couldn't fetch link metadata");
-			this.editor.replaceRange(selectedText || url, startPos, endPos);
+			const path = paste.file?.path;
+			if (!path) {
+				new Notice("Couldn't fetch link metadata");
+				await this.plugin.placeholders.replace(paste, fetchingText, fallback);
+				return;
+			}
+			if (
+				await this.plugin.placeholders.replace(
+					paste,
+					fetchingText,
+					this.genCodeBlock(PendingQueue.placeholder(url)),
+				)
+			) {
+				await this.plugin.pending.add(url, path, templateId, true);
+				new Notice(i18n.notices.pendingQueued);
+			}
 			return;
 		}
-		this.editor.replaceRange(this.genCodeBlock(linkMetadata), startPos, endPos);
+		await this.plugin.placeholders.replace(
+			paste,
+			fetchingText,
+			this.genOutput(CardFields.withHashes(linkMetadata), templateId),
+		);
 	}
 
 	/**
-	 * Generates the cardlink code block string from metadata.
-	 * @param linkMetadata - The metadata to include in the code block
-	 * @returns The formatted code block string
+	 * Inserts a placeholder card for a link that can't be fetched right now
+	 * and queues it, so the card is completed once the plugin is back online.
+	 * @param url - The URL of the link
+	 * @param templateId - The output template to use once fetched, defaults to the one chosen in settings
 	 */
-	genCodeBlock(linkMetadata: LinkMetadata): string {
-		const codeBlockTexts = ["\n```cardlink"];
-		codeBlockTexts.push(`url: ${linkMetadata.url}`);
-		codeBlockTexts.push(`title: "${linkMetadata.title}"`);
-		if (linkMetadata.description)
-			codeBlockTexts.push(`description: "${linkMetadata.description}"`);
-		if (linkMetadata.host) codeBlockTexts.push(`host: ${linkMetadata.host}`);
-		if (linkMetadata.favicon)
-			codeBlockTexts.push(`favicon: ${linkMetadata.favicon}`);
-		if (linkMetadata.image) codeBlockTexts.push(`image: ${linkMetadata.image}`);
-		codeBlockTexts.push("```\n");
-		return codeBlockTexts.join("\n");
+	async insertPlaceholder(
+		url: string,
+		templateId = this.plugin.settings?.defaultTemplate ?? CARDLINK_TEMPLATE_ID,
+	): Promise<void> {
+		if (!this.isAllowed(url)) {
+			this.editor.replaceSelection(
+				this.genOutput(FetchPolicy.plainCard(url), templateId),
+			);
+			return;
+		}
+
+		const path = PlaceholderTracker.getFile(this.editor)?.path;
+		if (!path) {
+			this.editor.replaceSelection(url);
+			return;
+		}
+
+		this.editor.replaceSelection(
+			this.genCodeBlock(PendingQueue.placeholder(url)),
+		);
+		await this.plugin.pending.add(url, path, templateId, false);
 	}
 
 	/**
-	 * Fetches and parses metadata from a URL.
-	 * @param url - The URL to fetch metadata from
-	 * @returns The parsed metadata or undefined if fetch fails
+	 * Checks whether a link pasted into the note of the editor may be fetched.
+	 * @param url - The URL of the link
+	 * @returns False if the URL is denied or the note turns fetching off
 	 */
-	private async fetchLinkMetadata(
-		url: string,
-	): Promise<LinkMetadata | undefined> {
-		const res = await (async () => {
-			try {
-				return requestUrl({ url });
-			} catch (e) {
-				console.log(e);
-				return;
-			}
-		})();
-		if (!res || res.status !== 200) {
-			console.log(`bad response. response status code was ${res?.status}`);
-			return;
-		}
+	private isAllowed(url: string): boolean {
+		return this.plugin.policy.allows(
+			url,
+			PlaceholderTracker.getFile(this.editor),
+		);
+	}
+
+	/**
+	 * Generates the text written for a link.
+	 * Unknown template ids fall back to the cardlink code block.
+	 * @param linkMetadata - The metadata of the link
+	 * @param templateId - The output template to use
+	 * @returns The text to insert
+	 */
+	genOutput(linkMetadata: LinkMetadata, templateId: string): string {
+		const template = OutputTemplates.find(
+			templateId,
+			this.plugin.settings?.outputTemplates ?? [],
+		);
+		if (!template) return this.genCodeBlock(linkMetadata);
+		return OutputTemplates.render(template.template, linkMetadata);
+	}
 
-		const parser = new LinkMetadataParser(url, res.text);
-		return parser.parse();
+	/**
+	 * Generates the cardlink code block string from metadata.
+	 * Cards without a creation date are dated today.
+	 * @param linkMetadata - The metadata to include in the code block
+	 * @returns The formatted code block string
+	 */
+	genCodeBlock(linkMetadata: LinkMetadata): string {
+		return [
+			"\n```cardlink",
+			...CardLinkSchema.serialize({
+				...linkMetadata,
+				added: linkMetadata.added ?? moment().format("YYYY-MM-DD"),
+			}),
+			"```\n",
+		].join("\n");
 	}
 
 	/**
-	 * Creates a random 4-character hash for unique placeholder identification.
-	 * @returns A random alphanumeric string
+	 * Generates the placeholder shown while a link is fetched.
+	 * @param url - The URL of the link
+	 * @returns Placeholder text with a unique id, also found in the file if the editor is gone
 	 */
-	private createBlockHash(): string {
-		let result = "";
-		const characters = "abcdefghijklmnopqrstuvwxyz0123456789";
-		const charactersLength = characters.length;
-		for (let i = 0; i < 4; i++) {
-			result += characters.charAt(Math.floor(Math.random() * charactersLength));
-		}
-		return result;
+	private genFetchingText(url: string): string {
+		return `[Fetching Data#${PlaceholderTracker.createId()}](${url})`;
 	}
 }
@@ -7,12 +7,23 @@ import {
 	type App,
 	ButtonComponent,
 	getLinkpath,
+	type MarkdownPostProcessorContext,
 	Notice,
-	parseYaml,
+	TFile,
 } from "obsidian";
 
-import { NoRequiredParamsError, YamlParseError } from "src/errors";
+import { CardLinkSchema } from "src/cardlink_schema";
+import {
+	InvalidValueError,
+	NoRequiredParamsError,
+	UnknownKeyError,
+	UnsupportedVersionError,
+	YamlParseError,
+} from "src/errors";
+import { FileMetadata } from "src/file_metadata";
 import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
 import { CheckIf } from "./checkif";
 
 /**
@@ -21,29 +32,43 @@ import { CheckIf } from "./checkif";
 export class CodeBlockProcessor {
 	/** Reference to the Obsidian App instance */
 	app: App;
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
 
 	/**
 	 * Creates a new CodeBlockProcessor.
-	 * @param app - The Obsidian App instance
+	 * @param plugin - The plugin instance
 	 */
-	constructor(app: App) {
-		this.app = app;
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.app = plugin.app;
+		this.plugin = plugin;
 	}
 
 	/**
 	 * Processes the cardlink code block source and renders it.
 	 * @param source - The YAML source content of the code block
 	 * @param el - The HTML element to render into
+	 * @param ctx - The post processor context, used to locate the block for refreshing
 	 */
-	async run(source: string, el: HTMLElement) {
+	async run(
+		source: string,
+		el: HTMLElement,
+		ctx?: MarkdownPostProcessorContext,
+	) {
 		try {
-			const data = this.parseLinkMetadataFromYaml(source);
-			el.appendChild(this.genLinkEl(data));
+			const data = CardLinkSchema.parse(source);
+			el.appendChild(this.genLinkEl(data, el, ctx));
 		} catch (error) {
 			if (error instanceof NoRequiredParamsError) {
 				el.appendChild(this.genErrorEl(error.message));
 			} else if (error instanceof YamlParseError) {
 				el.appendChild(this.genErrorEl(error.message));
+			} else if (
+				error instanceof UnknownKeyError ||
+				error instanceof InvalidValueError ||
+				error instanceof UnsupportedVersionError
+			) {
+				el.appendChild(this.genErrorEl(error.message));
 			} else if (error instanceof TypeError) {
 				el.appendChild(
 					this.genErrorEl("internal links must be surrounded by" + " quotes."),
@@ -55,57 +80,6 @@ export class CodeBlockProcessor {
 		}
 	}
 
-	/**
-	 * Parses YAML content into LinkMetadata.
-	 * Handles tab-to-space conversion for YAML compatibility.
-	 * @param source - The raw YAML source string
-	 * @returns Parsed link metadata
-	 * @throws {YamlParseError} When YAML parsing fails
-	 * @throws {NoRequiredParamsError} When required fields are missing
-	 */
-	private parseLinkMetadataFromYaml(source: string): LinkMetadata {
-		let yaml: Partial<LinkMetadata>;
-
-		let indent = -1;
-		source = source
-			.split(/\r?\n|\r|\n/g)
-			.map((line) =>
-				line.replace(/^\t+/g, (tabs) => {
-					const n = tabs.length;
-					if (indent < 0) {
-						indent = n;
-					}
-					return " ".repeat(n);
-				}),
-			)
-			.join("\n");
-
-		try {
-			yaml = parseYaml(source) as Partial<LinkMetadata>;
-		} catch (error) {
-			console.log(error);
-			throw new YamlParseError(
-				"failed to parse yaml. Check debug console for more detail.",
-			);
-		}
-
-		if (!yaml || !yaml.url || !yaml.title) {
-			throw new NoRequiredParamsError(
-				"required params[url, title] are not found.",
-			);
-		}
-
-		return {
-			url: yaml.url,
-			title: yaml.title,
-			description: yaml.description,
-			host: yaml.host,
-			favicon: yaml.favicon,
-			image: yaml.image,
-			indent,
-		};
-	}
-
 	/**
 	 * Generates an error display element.
 	 * @param errorMsg - The error message to display
@@ -125,13 +99,28 @@ export class CodeBlockProcessor {
 	/**
 	 * Generates the card link HTML element from metadata.
 	 * Creates a styled card with title, description, favicon, and thumbnail.
+	 * File cards also show their details, and audio and video cards a player.
 	 * @param data - The link metadata to render
+	 * @param el - The element the card is rendered into
+	 * @param ctx - The post processor context, required for the refresh button
 	 * @returns The complete card HTML element
 	 */
-	private genLinkEl(data: LinkMetadata): HTMLElement {
+	genLinkEl(
+		data: LinkMetadata,
+		el: HTMLElement,
+		ctx?: MarkdownPostProcessorContext,
+	): HTMLElement {
 		const containerEl = document.createElement("div");
 		containerEl.addClass("auto-card-link-container");
 		containerEl.setAttr("data-auto-card-link-depth", data.indent);
+		const layout =
+			data.layout ?? this.plugin.settings?.defaultLayout ?? "thumbnail-left";
+		containerEl.setAttr("data-auto-card-link-layout", layout);
+		if (data.type) containerEl.setAttr("data-auto-card-link-type", data.type);
+		if (data.kind) containerEl.setAttr("data-auto-card-link-kind", data.kind);
+		if (data.status) {
+			containerEl.setAttr("data-auto-card-link-status", data.status);
+		}
 
 		const cardEl = document.createElement("a");
 		cardEl.addClass("auto-card-link-card");
@@ -154,37 +143,114 @@ export class CodeBlockProcessor {
 			mainEl.appendChild(descriptionEl);
 		}
 
+		if (data.badges?.length) {
+			const badgesEl = document.createElement("div");
+			badgesEl.addClass("auto-card-link-badges");
+			for (const badge of data.badges) {
+				const badgeEl = document.createElement("span");
+				badgeEl.addClass("auto-card-link-badge");
+				badgeEl.textContent = badge;
+				badgesEl.appendChild(badgeEl);
+			}
+			mainEl.appendChild(badgesEl);
+		}
+
 		const hostEl = document.createElement("div");
 		hostEl.addClass("auto-card-link-host");
 		mainEl.appendChild(hostEl);
 
-		if (data.favicon) {
+		if (data.favicon && layout !== "text-only") {
 			if (!CheckIf.isUrl(data.favicon))
 				data.favicon = this.getLocalImagePath(data.favicon);
 
 			const faviconEl = document.createElement("img");
 			faviconEl.addClass("auto-card-link-favicon");
-			faviconEl.setAttr("src", data.favicon);
+			this.setImageSource(faviconEl, data.favicon);
 			hostEl.appendChild(faviconEl);
 		}
 
-		if (data.host) {
+		if (data.siteName || data.host) {
 			const hostNameEl = document.createElement("span");
-			hostNameEl.textContent = data.host;
+			hostNameEl.textContent = data.siteName || data.host || "";
 			hostEl.appendChild(hostNameEl);
 		}
 
-		if (data.image) {
+		if (data.author) {
+			const authorEl = document.createElement("span");
+			authorEl.addClass("auto-card-link-author");
+			authorEl.textContent = data.author;
+			hostEl.appendChild(authorEl);
+		}
+
+		if (data.published) {
+			const publishedEl = document.createElement("span");
+			publishedEl.addClass("auto-card-link-published");
+			publishedEl.textContent = data.published;
+			hostEl.appendChild(publishedEl);
+		}
+
+		const details = CodeBlockProcessor.getFileDetails(data);
+		if (details) {
+			const detailsEl = document.createElement("span");
+			detailsEl.addClass("auto-card-link-file-details");
+			detailsEl.textContent = details;
+			hostEl.appendChild(detailsEl);
+		}
+
+		if (data.status) {
+			const statusEl = document.createElement("span");
+			statusEl.addClass("auto-card-link-status");
+			statusEl.textContent = i18n.card.status[data.status];
+			if (data.checked) {
+				statusEl.setAttr(
+					"title",
+					i18n.card.checked.replace("{date}", data.checked),
+				);
+			}
+			hostEl.appendChild(statusEl);
+		}
+
+		if (data.image && layout !== "text-only" && layout !== "compact") {
 			if (!CheckIf.isUrl(data.image))
 				data.image = this.getLocalImagePath(data.image);
 
 			const thumbnailEl = document.createElement("img");
 			thumbnailEl.addClass("auto-card-link-thumbnail");
-			thumbnailEl.setAttr("src", data.image);
+			this.setImageSource(thumbnailEl, data.image);
 			thumbnailEl.setAttr("draggable", "false");
 			cardEl.appendChild(thumbnailEl);
 		}
 
+		// players sit outside the link so clicking them doesn't open the URL
+		if (data.kind === "video" || data.kind === "audio") {
+			const playerEl = document.createElement(data.kind);
+			playerEl.addClass("auto-card-link-player");
+			playerEl.controls = true;
+			playerEl.preload = "none";
+			playerEl.src = data.url;
+			containerEl.appendChild(playerEl);
+		}
+
+		if (containerEl.querySelector(".auto-card-link-image-blocked")) {
+			const loadButton = new ButtonComponent(containerEl)
+				.setClass("auto-card-link-load-images")
+				.setClass("clickable-icon")
+				.setIcon("image")
+				.setTooltip(i18n.card.loadImages)
+				.onClick(() => {
+					for (const imageEl of Array.from(
+						containerEl.querySelectorAll<HTMLImageElement>(
+							".auto-card-link-image-blocked",
+						),
+					)) {
+						imageEl.setAttr("src", imageEl.getAttr("data-src"));
+						imageEl.removeAttribute("data-src");
+						imageEl.removeClass("auto-card-link-image-blocked");
+					}
+					loadButton.buttonEl.remove();
+				});
+		}
+
 		new ButtonComponent(containerEl)
 			.setClass("auto-card-link-copy-url")
 			.setClass("clickable-icon")
@@ -195,15 +261,72 @@ export class CodeBlockProcessor {
 				new Notice("URL copied to your clipboard");
 			});
 
+		if (ctx) {
+			new ButtonComponent(containerEl)
+				.setClass("auto-card-link-refresh")
+				.setClass("clickable-icon")
+				.setIcon("refresh-cw")
+				.setTooltip(i18n.card.refresh)
+				.onClick(async () => {
+					const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+					const sectionInfo = ctx.getSectionInfo(el);
+					if (!(file instanceof TFile) || !sectionInfo) return;
+					await this.plugin.refresher.refreshBlockAt(
+						file,
+						sectionInfo.lineStart,
+					);
+				});
+		}
+
 		return containerEl;
 	}
 
+	/**
+	 * Gets the details shown on a file card: the dimensions of an image, the
+	 * page count of a PDF, or the type and size of other files.
+	 * @param data - The link metadata
+	 * @returns The details, or undefined for pages and files without details
+	 */
+	private static getFileDetails(data: LinkMetadata): string | undefined {
+		if (data.kind === "image" && data.width && data.height) {
+			return `${data.width} × ${data.height}`;
+		}
+		if (data.kind === "pdf" && data.pages) {
+			return i18n.card.pages.replace("{count}", String(data.pages));
+		}
+		if (!data.kind || data.kind === "image" || data.kind === "pdf") return;
+
+		const details = [
+			data.mimeType,
+			data.size !== undefined ? FileMetadata.formatSize(data.size) : undefined,
+		].filter(Boolean);
+		return details.length > 0 ? details.join(" · ") : undefined;
+	}
+
+	/**
+	 * Sets the source of a card image. Remote images are held back until
+	 * the user asks for them when remote image loading is turned off.
+	 * @param imageEl - The image element
+	 * @param src - The image URL or resource path
+	 */
+	private setImageSource(imageEl: HTMLImageElement, src: string): void {
+		if (
+			this.plugin.settings?.loadRemoteImages === false &&
+			CheckIf.isUrl(src)
+		) {
+			imageEl.addClass("auto-card-link-image-blocked");
+			imageEl.setAttr("data-src", src);
+			return;
+		}
+		imageEl.setAttr("src", src);
+	}
+
 	/**
 	 * Resolves an internal Obsidian link to a resource path.
 	 * @param link - The internal link in `[[filename]]` format
 	 * @returns The resolved resource path or the original link if not found
 	 */
-	private getLocalImagePath(link: string): string {
+	getLocalImagePath(link: string): string {
 		link = link.slice(2, -2); // remove [[]]
 		const imageRelativePath = this.app.metadataCache.getFirstLinkpathDest(
 			getLinkpath(link),
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Helpers for running asynchronous tasks with bounded concurrency.
+ * @module concurrency
+ */
+
+/**
+ * Static utility class for concurrent task execution.
+ */
+export class Concurrency {
+	/**
+	 * Maps items through an async function, running at most `limit` calls at a time.
+	 * @param items - The items to process
+	 * @param limit - Maximum number of concurrent calls (at least 1)
+	 * @param fn - The async function to apply to each item
+	 * @param onProgress - Called after each item completes with the number of completed items
+	 * @returns The results in the same order as the items
+	 */
+	public static async map<T, R>(
+		items: T[],
+		limit: number,
+		fn: (item: T, index: number) => Promise<R>,
+		onProgress?: (done: number, total: number) => void,
+	): Promise<R[]> {
+		const results: R[] = new Array(items.length);
+		let next = 0;
+		let done = 0;
+
+		const worker = async () => {
+			while (next < items.length) {
+				const index = next++;
+				results[index] = await fn(items[index], index);
+				done++;
+				onProgress?.(done, items.length);
+			}
+		};
+
+		const workers = Array.from(
+			{ length: Math.max(1, Math.min(limit, items.length)) },
+			worker,
+		);
+		await Promise.all(workers);
+		return results;
+	}
+
+	/**
+	 * Rejects if a promise doesn't settle in time.
+	 * The underlying work isn't aborted; its result is ignored.
+	 * @param promise - The promise to wait for
+	 * @param ms - The time limit in milliseconds
+	 * @param message - Message of the error thrown on timeout
+	 * @returns The result of the promise
+	 */
+	public static withTimeout<T>(
+		promise: Promise<T>,
+		ms: number,
+		message: string,
+	): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const timer = window.setTimeout(() => reject(new Error(message)), ms);
+			promise.then(
+				(value) => {
+					window.clearTimeout(timer);
+					resolve(value);
+				},
+				(error) => {
+					window.clearTimeout(timer);
+					reject(error);
+				},
+			);
+		});
+	}
+}
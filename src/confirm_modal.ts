@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Simple confirmation dialog.
+ * @module confirm_modal
+ */
+
+import { type App, ButtonComponent, Modal } from "obsidian";
+
+import { i18n } from "src/lang/i18n";
+
+/**
+ * Asks the user to confirm an action that changes many files.
+ * @extends Modal
+ */
+export class ConfirmModal extends Modal {
+	/** The message to show */
+	message: string;
+	/** Called when the user confirms */
+	onConfirm: () => void | Promise<void>;
+
+	/**
+	 * Creates a new ConfirmModal.
+	 * @param app - The Obsidian App instance
+	 * @param message - The message to show
+	 * @param onConfirm - Called when the user confirms
+	 */
+	constructor(
+		app: App,
+		message: string,
+		onConfirm: () => void | Promise<void>,
+	) {
+		super(app);
+		this.message = message;
+		this.onConfirm = onConfirm;
+	}
+
+	/**
+	 * Renders the message and buttons.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl("p", { text: this.message });
+
+		const buttonsEl = contentEl.createDiv("modal-button-container");
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.confirm)
+			.setWarning()
+			.onClick(async () => {
+				this.close();
+				await this.onConfirm();
+			});
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.cancel)
+			.onClick(() => this.close());
+	}
+
+	/**
+	 * Cleans up the modal content.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -14,3 +14,21 @@ export class YamlParseError extends Error {}
  * @extends Error
  */
 export class NoRequiredParamsError extends Error {}
+
+/**
+ * Error thrown when a cardlink code block contains keys that are not part of the schema.
+ * @extends Error
+ */
+export class UnknownKeyError extends Error {}
+
+/**
+ * Error thrown when a value in a cardlink code block has the wrong type or format.
+ * @extends Error
+ */
+export class InvalidValueError extends Error {}
+
+/**
+ * Error thrown when a cardlink code block was written with a newer schema version.
+ * @extends Error
+ */
+export class UnsupportedVersionError extends Error {}
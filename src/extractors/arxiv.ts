@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Extractor for arXiv papers.
+ * @module extractors/arxiv
+ */
+
+import type { SiteExtractor } from "src/extractors/registry";
+
+/**
+ * Shows the authors, abstract, date and primary category of arXiv papers.
+ * Works for both abstract pages and PDF links.
+ */
+export const arxivExtractor: SiteExtractor = {
+	id: "arxiv",
+	hostPattern: /^(www\.|export\.)?arxiv\.org$/i,
+	mode: "instead",
+	async extract(url, request) {
+		const id = /^\/(?:abs|pdf|html)\/(.+?)(?:\.pdf)?\/?$/.exec(
+			url.pathname,
+		)?.[1];
+		if (!id) return;
+
+		const res = await request({
+			url: `https://export.arxiv.org/api/query?id_list=${encodeURIComponent(id)}`,
+		});
+		if (res?.status !== 200) return;
+
+		const feed = new DOMParser().parseFromString(res.text, "application/xml");
+		const entry = feed.querySelector("entry");
+		const title = entry
+			?.querySelector("title")
+			?.textContent?.replace(/\s+/g, " ");
+		if (!entry || !title) return;
+
+		const authors = Array.from(entry.querySelectorAll("author > name")).map(
+			(el) => el.textContent?.trim() ?? "",
+		);
+		const category = entry
+			.getElementsByTagName("arxiv:primary_category")[0]
+			?.getAttribute("term");
+
+		return {
+			title: title.trim(),
+			description: entry
+				.querySelector("summary")
+				?.textContent?.replace(/\s+/g, " ")
+				.trim(),
+			author:
+				authors.length > 3
+					? `${authors.slice(0, 3).join(", ")} et al.`
+					: authors.join(", "),
+			published: entry.querySelector("published")?.textContent?.slice(0, 10),
+			siteName: "arXiv",
+			type: "article",
+			badges: category ? [category] : undefined,
+		};
+	},
+};
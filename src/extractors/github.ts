@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Extractor for GitHub repositories.
+ * @module extractors/github
+ */
+
+import {
+	type SiteExtractor,
+	SiteExtractorRegistry,
+} from "src/extractors/registry";
+
+/**
+ * Fields of the GitHub repository API response used for cards.
+ * @see https://docs.github.com/en/rest/repos/repos#get-a-repository
+ */
+interface GitHubRepository {
+	full_name: string;
+	description: string | null;
+	stargazers_count: number;
+	forks_count: number;
+	language: string | null;
+	owner: { login: string };
+}
+
+/**
+ * Shows the description, stars, forks and main language of repository links.
+ * Links to issues, pull requests, files and other pages inside a repository
+ * are left to the page metadata.
+ */
+export const githubExtractor: SiteExtractor = {
+	id: "github",
+	hostPattern: /^(www\.)?github\.com$/i,
+	mode: "before",
+	async extract(url, request) {
+		const segments = url.pathname.split("/").filter(Boolean);
+		if (segments.length !== 2) return;
+		const [owner, repo] = segments;
+
+		const res = await request({
+			url: `https://api.github.com/repos/${owner}/${repo}`,
+			headers: { Accept: "application/vnd.github+json" },
+		});
+		if (res?.status !== 200) return;
+
+		const repository = res.json as GitHubRepository;
+		const badges = [
+			`★ ${SiteExtractorRegistry.formatCount(repository.stargazers_count)}`,
+			`Forks ${SiteExtractorRegistry.formatCount(repository.forks_count)}`,
+		];
+		if (repository.language) badges.unshift(repository.language);
+
+		return {
+			title: repository.full_name,
+			description: repository.description ?? undefined,
+			author: repository.owner.login,
+			siteName: "GitHub",
+			badges,
+		};
+	},
+};
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Extractor for npm packages.
+ * @module extractors/npm
+ */
+
+import {
+	type SiteExtractor,
+	SiteExtractorRegistry,
+} from "src/extractors/registry";
+
+/**
+ * Fields of the npm registry manifest used for cards.
+ */
+interface NpmManifest {
+	name: string;
+	version: string;
+	description?: string;
+	license?: string;
+}
+
+/**
+ * Shows the latest version, license and weekly downloads of packages.
+ */
+export const npmExtractor: SiteExtractor = {
+	id: "npm",
+	hostPattern: /^(www\.)?npmjs\.com$/i,
+	mode: "instead",
+	async extract(url, request) {
+		const name = /^\/package\/((?:@[^/]+\/)?[^/]+)/.exec(url.pathname)?.[1];
+		if (!name) return;
+
+		const [manifestRes, downloadsRes] = await Promise.all([
+			request({
+				url: `https://registry.npmjs.org/${name}/latest`,
+			}),
+			request({
+				url: `https://api.npmjs.org/downloads/point/last-week/${name}`,
+			}),
+		]);
+		if (manifestRes?.status !== 200) return;
+
+		const manifest = manifestRes.json as NpmManifest;
+		const badges = [`v${manifest.version}`];
+		if (manifest.license) badges.push(manifest.license);
+		if (downloadsRes?.status === 200) {
+			const { downloads } = downloadsRes.json as { downloads: number };
+			badges.push(`${SiteExtractorRegistry.formatCount(downloads)}/week`);
+		}
+
+		return {
+			title: manifest.name,
+			description: manifest.description,
+			siteName: "npm",
+			badges,
+		};
+	},
+};
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Registry of site-specific metadata extractors.
+ * @module extractors/registry
+ */
+
+import {
+	type RequestUrlParam,
+	type RequestUrlResponse,
+	requestUrl,
+} from "obsidian";
+
+import type { LinkMetadata } from "src/interfaces";
+
+/**
+ * Sends a request for an extractor. Requests to URLs the fetch policy denies
+ * aren't sent and resolve to undefined.
+ */
+export type ExtractorRequest = (
+	request: RequestUrlParam,
+) => Promise<RequestUrlResponse | undefined>;
+
+/**
+ * Extracts card metadata for a specific site, typically from its public API.
+ */
+export interface SiteExtractor {
+	/** Unique identifier of the extractor */
+	id: string;
+	/** Hostnames handled by the extractor */
+	hostPattern: RegExp;
+	/**
+	 * `before`: the result is merged over the metadata parsed from the page.
+	 * `instead`: the page is not fetched at all when the extractor returns a title.
+	 */
+	mode: "before" | "instead";
+	/**
+	 * Extracts metadata for a URL.
+	 * Line breaks in text values are removed by the caller.
+	 * @param url - The URL of the link
+	 * @param request - Sends the requests of the extractor
+	 * @returns The metadata, or undefined if the URL isn't supported or the request failed
+	 */
+	extract(
+		url: URL,
+		request: ExtractorRequest,
+	): Promise<Partial<LinkMetadata> | undefined>;
+}
+
+/**
+ * Keeps track of the extractors consulted before the generic HTML parser.
+ * Other plugins can add their own through `register`.
+ */
+export class SiteExtractorRegistry {
+	/** Registered extractors; later registrations take precedence */
+	private extractors: SiteExtractor[];
+
+	/**
+	 * Creates a new SiteExtractorRegistry.
+	 * @param extractors - The initial extractors, in priority order
+	 */
+	constructor(extractors: SiteExtractor[] = []) {
+		this.extractors = [...extractors];
+	}
+
+	/**
+	 * Registers an extractor. An existing extractor with the same id is replaced.
+	 * @param extractor - The extractor to register
+	 * @returns A function that unregisters the extractor
+	 */
+	register(extractor: SiteExtractor): () => void {
+		this.unregister(extractor.id);
+		this.extractors.unshift(extractor);
+		return () => this.unregister(extractor.id);
+	}
+
+	/**
+	 * Removes an extractor.
+	 * @param id - The id of the extractor to remove
+	 */
+	unregister(id: string): void {
+		this.extractors = this.extractors.filter((e) => e.id !== id);
+	}
+
+	/**
+	 * Runs the extractors matching the URL's host until one returns metadata.
+	 * @param url - The URL of the link
+	 * @param canFetch - Decides whether a request of an extractor may be sent; nothing is sent by default
+	 * @returns The extractor that produced the metadata and its result, if any
+	 */
+	async extract(
+		url: string,
+		canFetch: (url: string) => boolean = () => false,
+	): Promise<
+		{ extractor: SiteExtractor; metadata: Partial<LinkMetadata> } | undefined
+	> {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return;
+		}
+
+		const request: ExtractorRequest = async (param) => {
+			if (!canFetch(param.url)) return;
+			return requestUrl({ ...param, throw: false });
+		};
+		for (const extractor of this.extractors) {
+			if (!extractor.hostPattern.test(parsed.hostname)) continue;
+			try {
+				const metadata = await extractor.extract(parsed, request);
+				if (metadata) return { extractor, metadata };
+			} catch (error) {
+				console.log(`extractor ${extractor.id} failed`, error);
+			}
+		}
+	}
+
+	/**
+	 * Formats a count for a badge (e.g., 12345 becomes "12.3k").
+	 * @param count - The number to format
+	 * @returns The formatted number
+	 */
+	static formatCount(count: number): string {
+		if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+		if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+		return String(count);
+	}
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Extractor for Stack Overflow and other Stack Exchange questions.
+ * @module extractors/stack_exchange
+ */
+
+import {
+	type SiteExtractor,
+	SiteExtractorRegistry,
+} from "src/extractors/registry";
+
+/**
+ * Fields of the Stack Exchange question API response used for cards.
+ * @see https://api.stackexchange.com/docs/questions-by-ids
+ */
+interface StackExchangeQuestion {
+	title: string;
+	score: number;
+	answer_count: number;
+	accepted_answer_id?: number;
+	tags: string[];
+	creation_date: number;
+	owner?: { display_name?: string };
+}
+
+/**
+ * Stack Exchange sites with their own domain, keyed by hostname.
+ */
+const apiSiteByHost: Record<string, string> = {
+	"stackoverflow.com": "stackoverflow",
+	"serverfault.com": "serverfault",
+	"superuser.com": "superuser",
+	"askubuntu.com": "askubuntu",
+	"mathoverflow.net": "mathoverflow.net",
+	"stackapps.com": "stackapps",
+};
+
+/**
+ * Shows the score, answer count, accepted state and tags of questions.
+ */
+export const stackExchangeExtractor: SiteExtractor = {
+	id: "stack-exchange",
+	hostPattern:
+		/^(?:www\.)?(?:stackoverflow\.com|serverfault\.com|superuser\.com|askubuntu\.com|mathoverflow\.net|stackapps\.com|[\w-]+\.stackexchange\.com)$/i,
+	mode: "before",
+	async extract(url, request) {
+		const id = /^\/(?:questions|q)\/(\d+)/.exec(url.pathname)?.[1];
+		if (!id) return;
+
+		const host = url.hostname.replace(/^www\./, "").toLowerCase();
+		const site =
+			apiSiteByHost[host] ?? host.replace(/\.stackexchange\.com$/, "");
+
+		const res = await request({
+			url: `https://api.stackexchange.com/2.3/questions/${id}?site=${site}`,
+		});
+		if (res?.status !== 200) return;
+
+		const question = (res.json as { items?: StackExchangeQuestion[] })
+			.items?.[0];
+		if (!question) return;
+
+		const badges = [
+			`Score ${SiteExtractorRegistry.formatCount(question.score)}`,
+			`${question.answer_count} answers`,
+		];
+		if (question.accepted_answer_id) badges.push("✓ Accepted");
+		badges.push(...question.tags.slice(0, 3));
+
+		return {
+			// The API returns HTML-encoded titles
+			title:
+				new DOMParser().parseFromString(question.title, "text/html")
+					.documentElement.textContent ?? question.title,
+			author: question.owner?.display_name,
+			published: new Date(question.creation_date * 1000)
+				.toISOString()
+				.slice(0, 10),
+			badges,
+		};
+	},
+};
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Rules deciding which links may be fetched.
+ * @module fetch_policy
+ */
+
+import type { TFile } from "obsidian";
+
+import type { LinkMetadata } from "src/interfaces";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Frontmatter key that turns fetching off for a note when set to false.
+ */
+export const FETCH_FRONTMATTER_KEY = "auto-card-link-fetch";
+
+/**
+ * Host patterns of local and private networks.
+ */
+export const PRIVATE_NETWORK_PATTERNS = [
+	"localhost",
+	"*.local",
+	"*.internal",
+	"*.lan",
+	"*.home.arpa",
+	"0.0.0.0/8",
+	"10.0.0.0/8",
+	"100.64.0.0/10",
+	"127.0.0.0/8",
+	"169.254.0.0/16",
+	"172.16.0.0/12",
+	"192.168.0.0/16",
+	"[::1]",
+	"[fc*",
+	"[fd*",
+	"[fe80:*",
+];
+
+/**
+ * Decides whether a link may be fetched, based on the allow and deny lists
+ * and on the frontmatter of the note the link is in.
+ */
+export class FetchPolicy {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new FetchPolicy.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Checks whether a link in a note may be fetched.
+	 * @param url - The URL of the link
+	 * @param file - The note the link is in, if any
+	 * @returns True if the link may be fetched
+	 */
+	allows(url: string, file?: TFile | null): boolean {
+		return this.allowsFile(file) && this.allowsUrl(url);
+	}
+
+	/**
+	 * Checks a URL against the allow and deny lists.
+	 * @param url - The URL to check
+	 * @returns True if the URL may be fetched
+	 */
+	allowsUrl(url: string): boolean {
+		return FetchPolicy.isAllowed(
+			url,
+			this.plugin.settings?.fetchAllowList ?? [],
+			this.plugin.settings?.fetchDenyList ?? [],
+		);
+	}
+
+	/**
+	 * Checks whether fetching is turned off in the frontmatter of a note.
+	 * @param file - The note, if any
+	 * @returns False if the note sets the fetch key to false
+	 */
+	allowsFile(file?: TFile | null): boolean {
+		if (!file) return true;
+		const frontmatter =
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		return frontmatter?.[FETCH_FRONTMATTER_KEY] !== false;
+	}
+
+	/**
+	 * Checks a URL against host patterns.
+	 * Denied hosts are never fetched; when the allow list isn't empty, only
+	 * hosts it matches are fetched.
+	 * @param url - The URL to check
+	 * @param allow - Patterns of the hosts that may be fetched
+	 * @param deny - Patterns of the hosts that are never fetched
+	 * @returns True if the URL may be fetched
+	 */
+	public static isAllowed(
+		url: string,
+		allow: string[],
+		deny: string[],
+	): boolean {
+		let hostname: string;
+		try {
+			hostname = new URL(url).hostname.toLowerCase();
+		} catch {
+			return false;
+		}
+
+		if (deny.some((pattern) => FetchPolicy.matches(hostname, pattern))) {
+			return false;
+		}
+		const patterns = allow.filter((pattern) => pattern.trim());
+		return (
+			patterns.length === 0 ||
+			patterns.some((pattern) => FetchPolicy.matches(hostname, pattern))
+		);
+	}
+
+	/**
+	 * Builds a card from the URL alone, for links that aren't fetched.
+	 * @param url - The URL of the link
+	 * @returns A card titled with the URL
+	 */
+	public static plainCard(url: string): LinkMetadata {
+		let host: string | undefined;
+		try {
+			host = new URL(url).hostname;
+		} catch {
+			// keep the card without a host
+		}
+		return { url, title: url, host, indent: 0 };
+	}
+
+	/**
+	 * Matches a hostname against a pattern.
+	 * A pattern is an IPv4 range in CIDR notation, a pattern where `*` matches
+	 * any text, or a domain that also matches its subdomains.
+	 * @param hostname - The lowercase hostname
+	 * @param pattern - The pattern as entered
+	 * @returns True if the hostname matches
+	 */
+	private static matches(hostname: string, pattern: string): boolean {
+		const trimmed = pattern.trim().toLowerCase();
+		if (!trimmed) return false;
+
+		const cidr = /^([\d.]+)\/(\d{1,2})$/.exec(trimmed);
+		if (cidr) {
+			const address = FetchPolicy.parseIPv4(hostname);
+			const network = FetchPolicy.parseIPv4(cidr[1]);
+			const bits = Number(cidr[2]);
+			if (address === undefined || network === undefined || bits > 32) {
+				return false;
+			}
+			const size = 2 ** (32 - bits);
+			return Math.floor(address / size) === Math.floor(network / size);
+		}
+
+		if (trimmed.includes("*")) {
+			const source = trimmed
+				.split("*")
+				.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+				.join(".*");
+			return new RegExp(`^${source}$`).test(hostname);
+		}
+
+		const domain = trimmed.replace(/^\./, "");
+		return hostname === domain || hostname.endsWith(`.${domain}`);
+	}
+
+	/**
+	 * Parses a dotted IPv4 address.
+	 * @param address - The address
+	 * @returns The address as a number, or undefined if it isn't an IPv4 address
+	 */
+	private static parseIPv4(address: string): number | undefined {
+		const parts = address.split(".");
+		if (parts.length !== 4) return;
+
+		let value = 0;
+		for (const part of parts) {
+			if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return;
+			value = value * 256 + Number(part);
+		}
+		return value;
+	}
+}
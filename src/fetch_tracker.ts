@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Tracking and cancellation of link fetches in progress.
+ * @module fetch_tracker
+ */
+
+import { Notice, setTooltip } from "obsidian";
+
+import { i18n } from "src/lang/i18n";
+
+/**
+ * A link fetch in progress.
+ */
+interface InFlightFetch {
+	/** The URL being fetched */
+	url: string;
+	/** Reverts the placeholder of the fetch, if it can be cancelled */
+	cancel?: () => void;
+}
+
+/**
+ * Keeps the list of link fetches in progress or waiting for their turn for
+ * the status bar, and lets fetches started from the editor be cancelled. Requests can't be aborted,
+ * so cancelling reverts the placeholder and the result is ignored.
+ */
+export class FetchTracker {
+	/** Fetches in progress */
+	private fetches: Set<InFlightFetch> = new Set();
+	/** Status bar item showing the fetches in progress */
+	private statusBarEl?: HTMLElement;
+
+	/**
+	 * Gets the number of fetches in progress.
+	 * @returns The number of fetches
+	 */
+	get size(): number {
+		return this.fetches.size;
+	}
+
+	/**
+	 * Gets the number of fetches that can be cancelled.
+	 * @returns The number of fetches with a placeholder to revert
+	 */
+	get cancellable(): number {
+		return [...this.fetches].filter((fetch) => fetch.cancel).length;
+	}
+
+	/**
+	 * Runs a fetch, listing it in the status bar until it settles.
+	 * @param url - The URL being fetched
+	 * @param fetch - Starts the fetch
+	 * @param cancel - Reverts the placeholder of the fetch when cancelled
+	 * @returns The result of the fetch
+	 */
+	async track<T>(
+		url: string,
+		fetch: () => Promise<T>,
+		cancel?: () => void,
+	): Promise<T> {
+		const entry: InFlightFetch = { url, cancel };
+		this.fetches.add(entry);
+		this.updateStatusBar();
+		try {
+			return await fetch();
+		} finally {
+			this.fetches.delete(entry);
+			this.updateStatusBar();
+		}
+	}
+
+	/**
+	 * Lists a fetch that waits for its turn, so it can be cancelled before it starts.
+	 * @param url - The URL to fetch
+	 * @param cancel - Reverts the placeholder of the fetch when cancelled
+	 * @returns Called when the fetch is about to start; false if it was cancelled meanwhile
+	 */
+	queue(url: string, cancel: () => void): () => boolean {
+		const entry: InFlightFetch = { url, cancel };
+		this.fetches.add(entry);
+		this.updateStatusBar();
+		return () => {
+			const waiting = this.fetches.delete(entry);
+			this.updateStatusBar();
+			return waiting;
+		};
+	}
+
+	/**
+	 * Cancels every fetch that has a placeholder, reverting the placeholders
+	 * to the text they replaced.
+	 */
+	cancelAll(): void {
+		let count = 0;
+		for (const fetch of this.fetches) {
+			if (!fetch.cancel) continue;
+			fetch.cancel();
+			this.fetches.delete(fetch);
+			count++;
+		}
+		this.updateStatusBar();
+		new Notice(i18n.notices.fetchesCancelled.replace("{count}", String(count)));
+	}
+
+	/**
+	 * Shows the fetches in progress in a status bar item.
+	 * @param el - The status bar item
+	 */
+	attachStatusBar(el: HTMLElement): void {
+		this.statusBarEl = el;
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Updates the status bar item, hiding it when nothing is being fetched.
+	 * The tooltip lists the URLs being fetched.
+	 */
+	private updateStatusBar(): void {
+		if (!this.statusBarEl) return;
+
+		this.statusBarEl.setText(
+			i18n.statusBar.fetching.replace("{count}", String(this.size)),
+		);
+		setTooltip(
+			this.statusBarEl,
+			[...this.fetches].map((fetch) => fetch.url).join("\n"),
+			{ placement: "top" },
+		);
+		this.statusBarEl.toggle(this.size > 0);
+	}
+}
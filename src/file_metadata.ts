@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Metadata of links that point at files rather than HTML pages.
+ * @module file_metadata
+ */
+
+import type { CardKind, LinkMetadata } from "src/interfaces";
+
+/**
+ * Extensions of files that are only inspected with a HEAD request, so large
+ * media and archives aren't downloaded to build a card.
+ */
+const headOnlyRegex =
+	/\.(mp4|m4v|webm|mov|mkv|avi|ogv|mp3|m4a|aac|wav|flac|ogg|oga|opus|zip|tar|gz|tgz|7z|rar|dmg|exe|msi|iso|apk)$/i;
+
+/**
+ * Extensions of video and audio files, for guessing the kind of a card when
+ * its URL couldn't be inspected.
+ */
+const videoRegex = /\.(mp4|m4v|webm|mov|mkv|avi|ogv)$/i;
+const audioRegex = /\.(mp3|m4a|aac|wav|flac|ogg|oga|opus)$/i;
+
+/**
+ * Bytes read from each end of a large PDF. The trailer, the document
+ * information dictionary and the catalog usually sit in the first or last
+ * megabyte.
+ */
+const PDF_WINDOW = 1024 * 1024;
+
+/**
+ * Static utility class for building cards from file responses.
+ */
+export class FileMetadata {
+	/**
+	 * Gets the kind of card for a response content type.
+	 * @param contentType - The Content-Type header
+	 * @returns The kind, or undefined for HTML pages and unknown types
+	 */
+	public static getKind(contentType: string | undefined): CardKind | undefined {
+		const mimeType = FileMetadata.getMimeType(contentType);
+		if (!mimeType || mimeType.includes("html")) return;
+		if (mimeType.startsWith("image/")) return "image";
+		if (mimeType === "application/pdf") return "pdf";
+		if (mimeType.startsWith("video/")) return "video";
+		if (mimeType.startsWith("audio/")) return "audio";
+		return "file";
+	}
+
+	/**
+	 * Checks whether a URL should only be inspected with a HEAD request.
+	 * @param url - The URL of the link
+	 * @returns True if the URL ends with a media or archive extension
+	 */
+	public static isHeadOnly(url: string): boolean {
+		try {
+			return headOnlyRegex.test(new URL(url).pathname);
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Builds the card of a file.
+	 * Images get their dimensions and PDFs their title and page count when the
+	 * body is available.
+	 * @param url - The URL of the file
+	 * @param kind - The kind of card
+	 * @param headers - The response headers
+	 * @param body - The response body, undefined for HEAD requests
+	 * @returns The card metadata
+	 */
+	public static build(
+		url: string,
+		kind: CardKind,
+		headers: Record<string, string>,
+		body?: ArrayBuffer,
+	): LinkMetadata {
+		const { hostname, origin } = new URL(url);
+		const length = Number(headers["content-length"]);
+		const linkMetadata: LinkMetadata = {
+			url,
+			title: FileMetadata.getFileName(url),
+			host: hostname,
+			favicon: `${origin}/favicon.ico`,
+			kind,
+			mimeType: FileMetadata.getMimeType(headers["content-type"]),
+			size: body?.byteLength ?? (Number.isFinite(length) ? length : undefined),
+			indent: 0,
+		};
+
+		const bytes = body && new Uint8Array(body);
+		if (kind === "image") {
+			linkMetadata.image = url;
+			if (bytes) Object.assign(linkMetadata, FileMetadata.getImageSize(bytes));
+		} else if (kind === "pdf" && bytes) {
+			const pdf = FileMetadata.readPdf(bytes);
+			if (pdf.title) linkMetadata.title = pdf.title;
+			linkMetadata.pages = pdf.pages;
+		}
+		return linkMetadata;
+	}
+
+	/**
+	 * Builds the card of a file from its URL alone, for files whose HEAD
+	 * request failed. The kind is guessed from the extension.
+	 * @param url - The URL of the file
+	 * @returns The card metadata
+	 */
+	public static buildFromUrl(url: string): LinkMetadata {
+		const { pathname } = new URL(url);
+		const kind: CardKind = videoRegex.test(pathname)
+			? "video"
+			: audioRegex.test(pathname)
+				? "audio"
+				: "file";
+		return FileMetadata.build(url, kind, {});
+	}
+
+	/**
+	 * Formats a file size for display.
+	 * @param size - The size in bytes
+	 * @returns The size in B, KB, MB or GB
+	 */
+	public static formatSize(size: number): string {
+		const units = ["B", "KB", "MB", "GB"];
+		let value = size;
+		let unit = 0;
+		while (value >= 1024 && unit < units.length - 1) {
+			value /= 1024;
+			unit++;
+		}
+		return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+	}
+
+	/**
+	 * Gets the MIME type of a Content-Type header without its parameters.
+	 * @param contentType - The Content-Type header
+	 * @returns The lowercase MIME type, or undefined if the header is empty
+	 */
+	private static getMimeType(
+		contentType: string | undefined,
+	): string | undefined {
+		return contentType?.split(";")[0].trim().toLowerCase() || undefined;
+	}
+
+	/**
+	 * Gets the file name of a URL.
+	 * @param url - The URL of the file
+	 * @returns The last path segment, or the hostname if the path is empty
+	 */
+	private static getFileName(url: string): string {
+		const { hostname, pathname } = new URL(url);
+		const name = pathname.split("/").filter(Boolean).pop();
+		if (!name) return hostname;
+		try {
+			return decodeURIComponent(name);
+		} catch {
+			return name;
+		}
+	}
+
+	/**
+	 * Reads the dimensions of a PNG, GIF, JPEG or WebP image from its header.
+	 * @param bytes - The image data
+	 * @returns The width and height, or nothing for other formats
+	 */
+	private static getImageSize(
+		bytes: Uint8Array,
+	): { width: number; height: number } | undefined {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const ascii = (start: number, length: number) =>
+			String.fromCharCode(...bytes.subarray(start, start + length));
+
+		// PNG: the IHDR chunk comes first
+		if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+			return { width: view.getUint32(16), height: view.getUint32(20) };
+		}
+		// GIF: logical screen size, little-endian
+		if (bytes.length >= 10 && ascii(0, 3) === "GIF") {
+			return {
+				width: view.getUint16(6, true),
+				height: view.getUint16(8, true),
+			};
+		}
+		// WebP: lossy, lossless and extended formats
+		if (
+			bytes.length >= 30 &&
+			ascii(0, 4) === "RIFF" &&
+			ascii(8, 4) === "WEBP"
+		) {
+			const format = ascii(12, 4);
+			if (format === "VP8 ") {
+				return {
+					width: view.getUint16(26, true) & 0x3fff,
+					height: view.getUint16(28, true) & 0x3fff,
+				};
+			}
+			if (format === "VP8L") {
+				const bits = view.getUint32(21, true);
+				return {
+					width: (bits & 0x3fff) + 1,
+					height: ((bits >> 14) & 0x3fff) + 1,
+				};
+			}
+			if (format === "VP8X") {
+				return {
+					width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+					height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+				};
+			}
+		}
+		// JPEG: the size is in the first start-of-frame segment
+		if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+			let offset = 2;
+			while (offset + 9 < bytes.length) {
+				if (bytes[offset] !== 0xff) return;
+				const marker = bytes[offset + 1];
+				if (
+					marker >= 0xc0 &&
+					marker <= 0xcf &&
+					marker !== 0xc4 &&
+					marker !== 0xc8 &&
+					marker !== 0xcc
+				) {
+					return {
+						height: view.getUint16(offset + 5),
+						width: view.getUint16(offset + 7),
+					};
+				}
+				offset += 2 + view.getUint16(offset + 2);
+			}
+		}
+	}
+
+	/**
+	 * Reads the title and page count of a PDF.
+	 * The title comes from the document information dictionary the trailer
+	 * points to, and the page count from the root of the page tree. Objects
+	 * inside compressed object streams can't be read; then the title is taken
+	 * from a dictionary that also names the producer, creator or author, and
+	 * the page objects are counted.
+	 * Only the first and last {@link PDF_WINDOW} bytes of larger files are
+	 * read, and their page objects aren't counted.
+	 * @param bytes - The PDF data
+	 * @returns The title and page count, when found
+	 */
+	private static readPdf(bytes: Uint8Array): {
+		title?: string;
+		pages?: number;
+	} {
+		const large = bytes.length > PDF_WINDOW * 2;
+		const text = large
+			? `${FileMetadata.toBinaryString(bytes.subarray(0, PDF_WINDOW))}\n${FileMetadata.toBinaryString(bytes.subarray(-PDF_WINDOW))}`
+			: FileMetadata.toBinaryString(bytes);
+
+		const info = FileMetadata.findObject(
+			text,
+			FileMetadata.findReference(text, "Info"),
+		);
+		let title = info && FileMetadata.readTitle(info);
+		if (!title) {
+			// outline entries have titles too, but never these keys
+			const dictionaries = [
+				...text.matchAll(/\d+\s+\d+\s+obj\b([\s\S]*?)endobj/g),
+			]
+				.map((match) => match[1])
+				.filter(
+					(body) =>
+						/\/Title\b/.test(body) &&
+						/\/(?:Producer|Creator|Author)\b/.test(body),
+				);
+			const last = dictionaries.pop();
+			title = last && FileMetadata.readTitle(last);
+		}
+
+		const root = FileMetadata.findObject(
+			text,
+			FileMetadata.findReference(text, "Root"),
+		);
+		const pageTree =
+			root &&
+			FileMetadata.findObject(text, FileMetadata.findReference(root, "Pages"));
+		const count = pageTree && /\/Count\s+(\d+)/.exec(pageTree);
+		const pages = count
+			? Number(count[1])
+			: large
+				? 0
+				: (text.match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0);
+
+		return { title: title?.trim() || undefined, pages: pages || undefined };
+	}
+
+	/**
+	 * Finds the last indirect reference stored under a key, such as the
+	 * `/Info` entry of the newest trailer.
+	 * @param source - The PDF text to search
+	 * @param key - The dictionary key, without the slash
+	 * @returns The object number and generation, or undefined if there is none
+	 */
+	private static findReference(
+		source: string,
+		key: string,
+	): { id: number; generation: number } | undefined {
+		const match = [
+			...source.matchAll(
+				new RegExp(`/${key}\\s+(\\d+)\\s+(\\d+)\\s+R\\b`, "g"),
+			),
+		].pop();
+		if (!match) return;
+		return { id: Number(match[1]), generation: Number(match[2]) };
+	}
+
+	/**
+	 * Finds the body of an indirect object, preferring its newest revision.
+	 * @param text - The PDF text
+	 * @param reference - The object number and generation
+	 * @returns The text between `obj` and `endobj`, or undefined if it isn't stored uncompressed
+	 */
+	private static findObject(
+		text: string,
+		reference: { id: number; generation: number } | undefined,
+	): string | undefined {
+		if (!reference) return;
+		const { id, generation } = reference;
+		return [
+			...text.matchAll(
+				new RegExp(
+					`(?<!\\d)${id}\\s+${generation}\\s+obj\\b([\\s\\S]*?)endobj`,
+					"g",
+				),
+			),
+		].pop()?.[1];
+	}
+
+	/**
+	 * Reads the `/Title` entry of a dictionary, written as a literal or a hex string.
+	 * @param source - The dictionary
+	 * @returns The decoded title, or undefined if the dictionary has none
+	 */
+	private static readTitle(source: string): string | undefined {
+		const literal = /\/Title\s*\(((?:\\[\s\S]|[^\\)])*)\)/.exec(source);
+		if (literal) {
+			return FileMetadata.decodePdfString(
+				literal[1].replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, sequence) => {
+					const escapes: Record<string, string> = {
+						n: "\n",
+						r: "\r",
+						t: "\t",
+						b: "\b",
+						f: "\f",
+					};
+					if (/^[0-7]+$/.test(sequence)) {
+						return String.fromCharCode(Number.parseInt(sequence, 8));
+					}
+					return escapes[sequence] ?? sequence;
+				}),
+			);
+		}
+
+		const hex = /\/Title\s*<([0-9A-Fa-f\s]+)>/.exec(source);
+		if (!hex) return;
+		const digits = hex[1].replace(/\s/g, "");
+		return FileMetadata.decodePdfString(
+			(digits.match(/.{1,2}/g) ?? [])
+				.map((byte) => String.fromCharCode(Number.parseInt(byte, 16)))
+				.join(""),
+		);
+	}
+
+	/**
+	 * Converts bytes to a string with one character per byte.
+	 * @param bytes - The data
+	 * @returns The string
+	 */
+	private static toBinaryString(bytes: Uint8Array): string {
+		let text = "";
+		for (let i = 0; i < bytes.length; i += 8192) {
+			text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+		}
+		return text;
+	}
+
+	/**
+	 * Decodes a PDF text string, which is either UTF-16 with a byte order mark
+	 * or a single-byte encoding.
+	 * @param raw - The string with one character per byte
+	 * @returns The decoded text
+	 */
+	private static decodePdfString(raw: string): string {
+		if (!raw.startsWith("\u00fe\u00ff")) return raw;
+		const bytes = Uint8Array.from(raw.slice(2), (char) => char.charCodeAt(0));
+		return new TextDecoder("utf-16be").decode(bytes);
+	}
+}
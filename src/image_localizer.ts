@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Downloads card favicons and preview images into the vault.
+ * @module image_localizer
+ */
+
+import {
+	Notice,
+	normalizePath,
+	type RequestUrlResponse,
+	requestUrl,
+	type TFile,
+} from "obsidian";
+
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { CheckIf } from "src/checkif";
+import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+import { DEFAULT_SETTINGS } from "src/settings";
+
+/**
+ * File extensions for the image content types we know how to store.
+ */
+const extensionsByContentType: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/avif": "avif",
+	"image/bmp": "bmp",
+	"image/svg+xml": "svg",
+	"image/x-icon": "ico",
+	"image/vnd.microsoft.icon": "ico",
+};
+
+/**
+ * Stores remote card images as vault attachments and links them with `[[...]]`.
+ * Files are named after a hash of their content, so identical images are stored once.
+ */
+export class ImageLocalizer {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new ImageLocalizer.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Downloads the remote favicon and image of a card.
+	 * Images that fail to download keep their remote URL.
+	 * @param linkMetadata - The metadata of the card
+	 * @returns A copy of the metadata pointing at the local images
+	 */
+	async localize(linkMetadata: LinkMetadata): Promise<LinkMetadata> {
+		const [favicon, image] = await Promise.all([
+			this.download(linkMetadata.favicon),
+			this.download(linkMetadata.image),
+		]);
+		return {
+			...linkMetadata,
+			favicon: favicon ?? linkMetadata.favicon,
+			image: image ?? linkMetadata.image,
+		};
+	}
+
+	/**
+	 * Localizes the images of every card in the given files.
+	 * Notes that turn fetching off are skipped.
+	 * @param files - The files to process
+	 */
+	async localizeFiles(files: TFile[]): Promise<void> {
+		const notice = new Notice(i18n.notices.localizeProgress, 0);
+		let count = 0;
+
+		for (const file of files) {
+			if (!this.plugin.policy.allowsFile(file)) continue;
+			const text = await this.plugin.app.vault.cachedRead(file);
+			const replacements = new Map<string, string[]>();
+			for (const block of CardLinkBlocks.find(text)) {
+				if (replacements.has(block.source)) continue;
+
+				let linkMetadata: LinkMetadata;
+				try {
+					linkMetadata = CardLinkSchema.parse(block.source);
+				} catch {
+					continue;
+				}
+				if (!this.hasRemoteImage(linkMetadata)) continue;
+
+				const localized = await this.localize(linkMetadata);
+				if (
+					localized.favicon === linkMetadata.favicon &&
+					localized.image === linkMetadata.image
+				) {
+					continue;
+				}
+				replacements.set(block.source, CardLinkSchema.serialize(localized));
+			}
+			if (replacements.size === 0) continue;
+
+			await this.plugin.app.vault.process(file, (data) => {
+				// Rewrite from the bottom so earlier line numbers stay valid
+				for (const block of CardLinkBlocks.find(data).reverse()) {
+					const yamlLines = replacements.get(block.source);
+					if (!yamlLines) continue;
+					data = CardLinkBlocks.replaceBody(data, block, yamlLines);
+					count++;
+				}
+				return data;
+			});
+		}
+
+		notice.hide();
+		new Notice(i18n.notices.localizeDone.replace("{count}", String(count)));
+	}
+
+	/**
+	 * Checks whether a card still points at a remote favicon or image.
+	 * @param linkMetadata - The metadata of the card
+	 * @returns True if any image is a remote URL
+	 */
+	private hasRemoteImage(linkMetadata: LinkMetadata): boolean {
+		return [linkMetadata.favicon, linkMetadata.image].some(
+			(url) => url !== undefined && CheckIf.isUrl(url),
+		);
+	}
+
+	/**
+	 * Downloads an image into the attachment folder.
+	 * @param url - The remote image URL
+	 * @returns An internal link to the stored file, or undefined if it wasn't downloaded
+	 */
+	private async download(url: string | undefined): Promise<string | undefined> {
+		if (!url || !CheckIf.isUrl(url) || !this.plugin.policy.allowsUrl(url)) {
+			return;
+		}
+
+		let res: RequestUrlResponse;
+		try {
+			res = await requestUrl({ url });
+		} catch (error) {
+			console.log(error);
+			return;
+		}
+
+		const contentType = (res.headers["content-type"] ?? "")
+			.split(";")[0]
+			.trim()
+			.toLowerCase();
+		const extension =
+			extensionsByContentType[contentType] ??
+			/\.(png|jpe?g|gif|webp|avif|bmp|svg|ico)$/i
+				.exec(new URL(url).pathname)?.[1]
+				.toLowerCase();
+		if (!extension) {
+			console.log(`not an image: ${url} (${contentType})`);
+			return;
+		}
+
+		const data = res.arrayBuffer;
+		const path = normalizePath(
+			`${this.getFolder()}/${await ImageLocalizer.hash(data)}.${extension}`,
+		);
+
+		const vault = this.plugin.app.vault;
+		if (!vault.getAbstractFileByPath(path)) {
+			const folder = this.getFolder();
+			try {
+				if (!vault.getAbstractFileByPath(folder)) {
+					await vault.createFolder(folder);
+				}
+				await vault.createBinary(path, data);
+			} catch (error) {
+				// Another download may have stored the same image in the meantime
+				if (!vault.getAbstractFileByPath(path)) {
+					console.log(error);
+					return;
+				}
+			}
+		}
+
+		return `[[${path}]]`;
+	}
+
+	/**
+	 * Gets the configured attachment folder.
+	 * @returns The normalized folder path
+	 */
+	private getFolder(): string {
+		return normalizePath(
+			this.plugin.settings?.imageFolder || DEFAULT_SETTINGS.imageFolder,
+		);
+	}
+
+	/**
+	 * Computes a short content hash used as the file name.
+	 * @param data - The file content
+	 * @returns The first 16 hex characters of the SHA-256 digest
+	 */
+	private static async hash(data: ArrayBuffer): Promise<string> {
+		const digest = await crypto.subtle.digest("SHA-256", data);
+		return Array.from(new Uint8Array(digest))
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("")
+			.slice(0, 16);
+	}
+}
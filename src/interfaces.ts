@@ -3,6 +3,52 @@
  * @module interfaces
  */
 
+/**
+ * Layouts a card can be rendered with.
+ */
+export const CARD_LAYOUTS = [
+	"thumbnail-left",
+	"thumbnail-right",
+	"image-top",
+	"compact",
+	"text-only",
+] as const;
+
+/**
+ * Layout of a card: a thumbnail beside the text on the left (the original
+ * layout) or on the right, a large image on top, a single line, or text without images.
+ */
+export type CardLayout = (typeof CARD_LAYOUTS)[number];
+
+/**
+ * States a card can be in besides complete.
+ */
+export const CARD_STATUSES = [
+	"pending",
+	"broken",
+	"redirected",
+	"changed",
+	"archived",
+] as const;
+
+/**
+ * State of a card: `pending` cards are placeholders waiting to be fetched,
+ * the others are results of the link checker (`archived` cards point at an archived copy).
+ */
+export type CardStatus = (typeof CARD_STATUSES)[number];
+
+/**
+ * Kinds of cards for links that aren't HTML pages.
+ */
+export const CARD_KINDS = ["image", "pdf", "video", "audio", "file"] as const;
+
+/**
+ * Kind of a card, chosen from the content type of the link: an image shown
+ * as the thumbnail, a PDF, media with an inline player, or any other file.
+ * Cards of HTML pages have no kind.
+ */
+export type CardKind = (typeof CARD_KINDS)[number];
+
 /**
  * Metadata extracted from a URL for rendering as a card link.
  */
@@ -19,6 +65,42 @@ export interface LinkMetadata {
 	favicon?: string;
 	/** URL to the Open Graph or preview image */
 	image?: string;
+	/** Author of the linked content */
+	author?: string;
+	/** Name of the site or oEmbed provider (e.g., "YouTube") */
+	siteName?: string;
+	/** Publication date of the linked content (YYYY-MM-DD when known) */
+	published?: string;
+	/** Type of the linked content (e.g., "article", "video.other") */
+	type?: string;
+	/** Short facts shown as badges (e.g., stars or the main language of a repository) */
+	badges?: string[];
+	/** Kind of file the link points at, absent for HTML pages */
+	kind?: CardKind;
+	/** MIME type of the file */
+	mimeType?: string;
+	/** Size of the file in bytes */
+	size?: number;
+	/** Width of the image in pixels */
+	width?: number;
+	/** Height of the image in pixels */
+	height?: number;
+	/** Number of pages of the PDF */
+	pages?: number;
+	/** Layout chosen for this card, overriding the default layout */
+	layout?: CardLayout;
+	/** State of the card, absent for complete cards */
+	status?: CardStatus;
+	/** Date the card was created (YYYY-MM-DD) */
+	added?: string;
+	/** Date the link was last checked (YYYY-MM-DD) */
+	checked?: string;
+	/** The URL that was pasted, kept when the card URL was normalized */
+	originalUrl?: string;
+	/** Hashes of the card fields as last fetched, to tell hand edits apart on refresh */
+	fetchedHash?: string;
+	/** Canonical URL declared by the page, used for normalization but not written to cards */
+	canonicalUrl?: string;
 	/** Indentation level for nested code blocks */
 	indent: number;
 }
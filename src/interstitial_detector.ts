@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Detection of bot checks, consent screens and login walls.
+ * @module interstitial_detector
+ */
+
+/**
+ * Titles of pages served instead of the requested content.
+ * Matched against the whole `<title>`, ignoring case and surrounding whitespace.
+ */
+const interstitialTitles: RegExp[] = [
+	// Cloudflare
+	/^just a moment\.*$/,
+	/^attention required!? \| cloudflare$/,
+	/^please wait\.*$/,
+	/^checking your browser\.*$/,
+	/^ddos-guard$/,
+	// Amazon and other captchas
+	/^robot check$/,
+	/^are you a robot\??$/,
+	/^access denied$/,
+	/^access to this page has been denied\.?$/,
+	/^pardon our interruption\.*$/,
+	/^security check$/,
+	/^human verification$/,
+	// Login walls
+	/^(sign|log) ?in$/,
+	/^(sign|log) ?in (to|\||-|–|·) .+$/,
+	/^.+ (\||-|–|·) (sign|log) ?in$/,
+	// Consent screens
+	/^before you continue( to .+)?$/,
+];
+
+/**
+ * Elements only found on bot check pages.
+ */
+const interstitialSelectors = [
+	"#challenge-form",
+	"#challenge-running",
+	"#cf-challenge-running",
+	".cf-browser-verification",
+	"#px-captcha",
+	"form[action*='validateCaptcha']",
+	"form[action*='consent.']",
+];
+
+/**
+ * Static utility class for recognising pages that stand in for the real content.
+ */
+export class InterstitialDetector {
+	/**
+	 * Checks whether a fetched page is a bot check, consent screen or login wall.
+	 * Such pages are reported as fetch failures instead of becoming cards.
+	 * @param htmlDoc - The parsed page
+	 * @returns True if the page is an interstitial
+	 */
+	public static isInterstitial(htmlDoc: Document): boolean {
+		const title = (htmlDoc.querySelector("title")?.textContent ?? "")
+			.trim()
+			.toLowerCase();
+		if (interstitialTitles.some((regex) => regex.test(title))) return true;
+
+		return interstitialSelectors.some(
+			(selector) => htmlDoc.querySelector(selector) !== null,
+		);
+	}
+}
@@ -6,7 +6,146 @@
 export default {
 	commands: {
 		pasteAndEnhance: "Paste URL and enhance to card link",
+		pasteAndEnhanceLocalImages:
+			"Paste URL and enhance to card link with images saved in the vault",
 		enhanceSelected: "Enhance selected URL to card link",
+		clearCache: "Clear link metadata cache",
+		refreshCard: "Refresh card under cursor",
+		refreshNote: "Refresh all cards in note",
+		refreshVault: "Refresh all cards in vault",
+		convertNote: "Convert links in current note to card links",
+		convertFolder: "Convert links in a folder to card links",
+		convertVault: "Convert links in vault to card links",
+		revertSelected: "Convert card under cursor or in selection back to link",
+		revertNote: "Convert cards in current note back to links",
+		revertVault: "Convert cards in vault back to links",
+		pasteAs: "Paste URL as {name}",
+		migrateNote: "Upgrade cards in current note to the latest format",
+		migrateVault: "Upgrade cards in vault to the latest format",
+		localizeNote: "Save images of cards in current note to the vault",
+		localizeVault: "Save images of all cards in vault to the vault",
+		openLibrary: "Open card library",
+		checkNote: "Check links of cards in current note",
+		checkVault: "Check links of all cards in vault",
+		showCheckResults: "Show link check results",
+		normalizeNote: "Normalize card urls in current note",
+		normalizeVault: "Normalize card urls in vault",
+		retryPending: "Retry fetching pending links",
+		dropPending: "Drop pending links",
+		cancelFetches: "Cancel pending card fetches",
+	},
+
+	card: {
+		refresh: "Refresh card",
+		loadImages: "Load images",
+		pages: "{count} pages",
+		status: {
+			pending: "Pending",
+			broken: "Broken",
+			redirected: "Moved",
+			changed: "Changed",
+			archived: "Archived",
+		},
+		checked: "Checked {date}",
+	},
+
+	modals: {
+		cancel: "Cancel",
+		confirm: "Continue",
+		revertVault:
+			"Every card link in the vault will be replaced. This can't be undone from the editor. Continue?",
+		refresh: {
+			title: "Review changes of {count} card(s)",
+			apply: "Apply",
+		},
+		convert: {
+			title: "Convert {count} link(s) to card links",
+			selectAll: "Select all",
+			selectNone: "Select none",
+			convert: "Convert",
+			chooseFolder: "Choose a folder to convert",
+		},
+		pasteAs: {
+			placeholder: "Paste {url} as...",
+			card: "Card",
+			link: "Markdown link",
+			url: "Bare url",
+			embed: "Embed",
+			last: "Last used",
+		},
+	},
+
+	notices: {
+		cacheCleared: "Link metadata cache cleared",
+		noCardFound: "No card link found",
+		refreshProgress: "Refreshing cards... {done}/{total}",
+		refreshFailed: "Couldn't fetch link metadata of {count} card(s)",
+		refreshUpToDate: "All cards are up to date",
+		refreshDone: "Refreshed {count} card(s)",
+		noLinkFound: "No links to convert",
+		convertProgress: "Fetching link metadata... {done}/{total}",
+		convertDone: "Converted {count} link(s), {failed} failed",
+		revertDone: "Converted {count} card(s) back to links",
+		migrateDone:
+			"Upgraded {count} card(s) to the latest format, {failed} invalid card(s) left unchanged",
+		localizeProgress: "Downloading card images...",
+		localizeDone: "Saved images of {count} card(s) to the vault",
+		checkProgress: "Checking links... {done}/{total}",
+		checkDone: "Checked {count} card(s), {problems} need attention",
+		checkTimeout: "Timed out",
+		archiveNotFound: "No archived copy found",
+		normalizeProgress: "Normalizing card urls...",
+		normalizeDone: "Normalized the urls of {count} card(s)",
+		pendingQueued:
+			"Couldn't fetch link metadata, the card will be completed when possible",
+		pendingOffline: "Still offline, pending links will be retried later",
+		pendingRetried: "{count} link(s) still pending",
+		pendingDropped: "Dropped {count} pending link(s)",
+		pendingGaveUp: "Gave up fetching {url}, its card was marked as broken",
+		fetchTimeout: "Timed out fetching {url}",
+		fetchInterstitial:
+			"{url} served a bot check or login page instead of the page, so no card was made",
+		fetchesCancelled: "Cancelled {count} card fetch(es)",
+	},
+
+	statusBar: {
+		pending: "{count} link(s) pending",
+		pendingTooltip: "Click to retry fetching pending links",
+		fetching: "Fetching {count} link(s)",
+	},
+
+	views: {
+		library: {
+			title: "Card library",
+			search: "Search cards",
+			empty: "No cards found",
+			ungrouped: "None",
+			group: {
+				none: "No grouping",
+				host: "Group by host",
+				tag: "Group by tag",
+				note: "Group by note",
+			},
+			sort: {
+				newest: "Newest first",
+				oldest: "Oldest first",
+				title: "By title",
+			},
+		},
+		linkCheck: {
+			title: "Link check",
+			empty:
+				'No problems found. Run "Check links of all cards in vault" to check again',
+			groups: {
+				broken: "Broken ({count})",
+				redirected: "Moved ({count})",
+				changed: "Changed ({count})",
+			},
+			useArchive: "Use archived copy",
+			useTarget: "Update url",
+			refresh: "Refresh card",
+			dismiss: "Dismiss",
+		},
 	},
 
 	settings: {
@@ -14,9 +153,176 @@ export default {
 			name: "Enhance Default Paste",
 			desc: "Fetch the link metadata when pasting a url in the editor with the default paste command",
 		},
+		pasteLinkMode: {
+			name: "Links in pasted text",
+			desc: "When pasting text that is more than a single url, which links to convert to cards. The rest of the text is kept as it is",
+			options: {
+				lines: "Lines that only contain a link",
+				every: "Every link",
+			},
+		},
+		pasteChooser: {
+			name: "Ask how to paste urls",
+			desc: "When pasting a single url, choose between a card, a Markdown link, the bare url, an embed or one of your templates. The choice is remembered per domain and listed first; hold Alt while pasting to reuse it without asking",
+		},
 		showInMenuItem: {
 			name: "Add commands in menu item",
 			desc: "Whether to add commands in right click menu items",
 		},
+		defaultLayout: {
+			name: "Default card layout",
+			desc: 'Layout of cards without a layout key. Set "layout" in a cardlink block to override it',
+			options: {
+				"thumbnail-left": "Thumbnail on the left",
+				"thumbnail-right": "Thumbnail on the right",
+				"image-top": "Large image on top",
+				compact: "Compact (one line)",
+				"text-only": "Text only",
+			},
+		},
+		virtualCards: {
+			name: "Show links as cards",
+			desc: 'In Live Preview and Reading view, show lines that only contain a url or a Markdown link as cards without changing the note. Add "auto-card-link-virtual: false" to the frontmatter of a note to turn this off for it',
+		},
+		localizeImages: {
+			name: "Save images in the vault",
+			desc: "Download the favicon and image of new cards into the vault instead of linking to the remote files",
+		},
+		imageFolder: {
+			name: "Image folder",
+			desc: "Vault folder where downloaded favicons and images are stored",
+		},
+		normalizeUrls: {
+			name: "Normalize urls",
+			desc: "Use the canonical url of the page, which also resolves shortened links such as t.co or bit.ly, and remove tracking parameters when creating cards",
+		},
+		keepOriginalUrl: {
+			name: "Keep original url",
+			desc: "Save the pasted url as original_url when it was normalized",
+		},
+		trackingParameters: {
+			name: "Tracking parameters",
+			desc: "Query parameters removed from card urls, one per line. A trailing * matches any suffix, e.g. utm_*",
+		},
+		fetchConcurrency: {
+			name: "Parallel fetches",
+			desc: "Maximum number of pages fetched at the same time when converting or refreshing many links",
+		},
+		fetchTimeout: {
+			name: "Fetch timeout",
+			desc: "Seconds to wait for the metadata of a link. Links that time out are pasted as pending cards and retried later",
+		},
+		refreshKeepEditedFields: {
+			name: "Keep edited fields when refreshing",
+			desc: "When refreshing a card, keep fields that differ from the last fetched metadata",
+		},
+		revertFormat: {
+			name: "Convert cards back to",
+			desc: "Format used when converting card links back to plain Markdown",
+			options: {
+				markdown: "Markdown link [title](url)",
+				url: "Bare url",
+				template: "Custom template",
+			},
+		},
+		revertTemplate: {
+			name: "Custom template",
+			desc: "Used when converting cards back with a custom template. Supports the same placeholders and filters as output templates, e.g. {{url}}, {{title}}, {{description|truncate:100}}",
+		},
+		templates: {
+			heading: "Output templates",
+			desc: "Write pasted links with a template instead of a card. Placeholders: {placeholders}. Filters: {{title|truncate:80}}, {{title|escape}}, {{title|upper}}, {{title|lower}}, {{site_name|default:host}}. Lines whose placeholders are all empty are left out",
+			default: {
+				name: "Default output",
+				desc: "Used by the paste commands and when enhancing the default paste. Every output also has its own command",
+			},
+			cardlink: "Card",
+			namePlaceholder: "Template name",
+			remove: "Remove template",
+			add: "Add template",
+			newName: "New template",
+		},
+		oembed: {
+			heading: "oEmbed",
+			discovery: {
+				name: "Use oEmbed advertised by pages",
+				desc: "Fetch the oEmbed data a page links to for better titles, authors and thumbnails",
+			},
+			provider: {
+				desc: "Use the built-in oEmbed endpoint of this site",
+			},
+		},
+		requestProfiles: {
+			heading: "Request profiles",
+			desc: "Headers sent when fetching pages of specific domains, for sites that show bot checks or login walls to the default request. Pages recognised as bot checks, consent screens or login walls are treated as failed fetches instead of becoming cards",
+			domain: {
+				name: "Domain",
+				desc: "Also applies to its subdomains",
+			},
+			userAgent: "User-Agent",
+			acceptLanguage: "Accept-Language",
+			cookie: {
+				name: "Cookie",
+				desc: "Stored in the plugin settings as plain text",
+			},
+			headers: {
+				name: "Extra headers",
+				desc: 'One "Name: value" pair per line',
+			},
+			remove: "Remove profile",
+			add: "Add request profile",
+		},
+		linkCheck: {
+			heading: "Link check",
+			record: {
+				name: "Record results in cards",
+				desc: "Write the outcome as status and the date as checked into every checked card",
+			},
+			timeout: {
+				name: "Timeout",
+				desc: "Seconds to wait for a page before it is reported as broken",
+			},
+			archiveEndpoint: {
+				name: "Archive endpoint",
+				desc: "Url used to look up archived copies of broken links, {url} is replaced with the link. Answers in the format of the Wayback Machine availability API are read, otherwise the url itself is used",
+			},
+		},
+		privacy: {
+			heading: "Privacy",
+			desc: "Links that may not be fetched are pasted as plain cards built from the url. Set {key}: false in the frontmatter of a note to never fetch links pasted into it",
+			denyList: {
+				name: "Never fetch",
+				desc: "Hosts that are never contacted, one per line: a domain (subdomains included), a pattern with * such as *.corp, or an IPv4 range such as 10.0.0.0/8",
+				addPreset: "Add private networks",
+			},
+			allowList: {
+				name: "Only fetch",
+				desc: "If not empty, only hosts matching one of these patterns are contacted. Same format as above",
+			},
+			loadRemoteImages: {
+				name: "Load remote images",
+				desc: "Show favicons and thumbnails hosted on other sites right away. When turned off, cards get a button to load them",
+			},
+		},
+		cache: {
+			heading: "Metadata cache",
+			enabled: {
+				name: "Cache fetched metadata",
+				desc: "Reuse metadata of recently fetched urls instead of fetching them again",
+			},
+			ttlDays: {
+				name: "Cache lifetime (days)",
+				desc: "Number of days before a cached entry is fetched again. 0 keeps entries forever",
+			},
+			maxEntries: {
+				name: "Maximum cache entries",
+				desc: "Least recently used entries are removed when the cache grows beyond this size. 0 means unlimited",
+			},
+			stats: {
+				name: "Cache statistics",
+				desc: "{entries} entries ({size} KB), {hits} hits / {misses} misses this session, oldest entry: {oldest}",
+			},
+			clear: "Clear cache",
+		},
 	},
 };
@@ -8,7 +8,146 @@ import type en from "./en";
 const ja: typeof en = {
 	commands: {
 		pasteAndEnhance: "URLを貼り付けてカードリンクに変換",
+		pasteAndEnhanceLocalImages:
+			"URLを貼り付けて画像を保管庫に保存したカードリンクに変換",
 		enhanceSelected: "選択したURLをカードリンクに変換",
+		clearCache: "リンクメタデータのキャッシュを消去",
+		refreshCard: "カーソル位置のカードを更新",
+		refreshNote: "ノート内のすべてのカードを更新",
+		refreshVault: "保管庫内のすべてのカードを更新",
+		convertNote: "現在のノートのリンクをカードリンクに変換",
+		convertFolder: "フォルダ内のリンクをカードリンクに変換",
+		convertVault: "保管庫内のリンクをカードリンクに変換",
+		revertSelected: "カーソル位置または選択範囲のカードをリンクに戻す",
+		revertNote: "現在のノートのカードをリンクに戻す",
+		revertVault: "保管庫内のカードをリンクに戻す",
+		pasteAs: "URLを「{name}」として貼り付け",
+		migrateNote: "現在のノートのカードを最新の形式に更新",
+		migrateVault: "保管庫内のカードを最新の形式に更新",
+		localizeNote: "現在のノートのカード画像を保管庫に保存",
+		localizeVault: "保管庫内のすべてのカード画像を保管庫に保存",
+		openLibrary: "カードライブラリを開く",
+		checkNote: "現在のノートのカードのリンクを確認",
+		checkVault: "保管庫内のすべてのカードのリンクを確認",
+		showCheckResults: "リンク確認の結果を表示",
+		normalizeNote: "現在のノートのカードのURLを正規化",
+		normalizeVault: "保管庫内のカードのURLを正規化",
+		retryPending: "保留中のリンクを再取得",
+		dropPending: "保留中のリンクを破棄",
+		cancelFetches: "取得中のカードをキャンセル",
+	},
+
+	card: {
+		refresh: "カードを更新",
+		loadImages: "画像を読み込む",
+		pages: "{count} ページ",
+		status: {
+			pending: "保留中",
+			broken: "リンク切れ",
+			redirected: "移動",
+			changed: "変更あり",
+			archived: "アーカイブ",
+		},
+		checked: "{date}に確認",
+	},
+
+	modals: {
+		cancel: "キャンセル",
+		confirm: "続行",
+		revertVault:
+			"保管庫内のすべてのカードリンクが置き換えられます。エディタから元に戻すことはできません。続行しますか？",
+		refresh: {
+			title: "{count}件のカードの変更を確認",
+			apply: "適用",
+		},
+		convert: {
+			title: "{count}件のリンクをカードリンクに変換",
+			selectAll: "すべて選択",
+			selectNone: "選択を解除",
+			convert: "変換",
+			chooseFolder: "変換するフォルダを選択",
+		},
+		pasteAs: {
+			placeholder: "{url} を貼り付ける形式...",
+			card: "カード",
+			link: "Markdownリンク",
+			url: "URLそのまま",
+			embed: "埋め込み",
+			last: "前回の選択",
+		},
+	},
+
+	notices: {
+		cacheCleared: "リンクメタデータのキャッシュを消去しました",
+		noCardFound: "カードリンクが見つかりません",
+		refreshProgress: "カードを更新中... {done}/{total}",
+		refreshFailed: "{count}件のカードのメタデータを取得できませんでした",
+		refreshUpToDate: "すべてのカードは最新です",
+		refreshDone: "{count}件のカードを更新しました",
+		noLinkFound: "変換できるリンクがありません",
+		convertProgress: "リンクメタデータを取得中... {done}/{total}",
+		convertDone: "{count}件のリンクを変換しました（失敗 {failed}件）",
+		revertDone: "{count}件のカードをリンクに戻しました",
+		migrateDone:
+			"{count}件のカードを最新の形式に更新しました。{failed}件の不正なカードは変更していません",
+		localizeProgress: "カード画像をダウンロード中...",
+		localizeDone: "{count}件のカードの画像を保管庫に保存しました",
+		checkProgress: "リンクを確認中... {done}/{total}",
+		checkDone: "{count}件のカードを確認しました。要対応 {problems}件",
+		checkTimeout: "タイムアウト",
+		archiveNotFound: "アーカイブが見つかりません",
+		normalizeProgress: "カードのURLを正規化中...",
+		normalizeDone: "{count}件のカードのURLを正規化しました",
+		pendingQueued:
+			"リンクメタデータを取得できませんでした。取得でき次第カードを完成させます",
+		pendingOffline: "オフラインのため、保留中のリンクは後で再試行します",
+		pendingRetried: "保留中のリンクは{count}件です",
+		pendingDropped: "保留中のリンク{count}件を破棄しました",
+		pendingGaveUp: "{url} の取得を打ち切り、カードをリンク切れにしました",
+		fetchTimeout: "{url} の取得がタイムアウトしました",
+		fetchInterstitial:
+			"{url} はページの代わりにボット確認またはログインページを返したため、カードを作成しませんでした",
+		fetchesCancelled: "{count}件のカードの取得をキャンセルしました",
+	},
+
+	statusBar: {
+		pending: "保留中のリンク {count}件",
+		pendingTooltip: "クリックして保留中のリンクを再取得",
+		fetching: "リンクを取得中 {count}件",
+	},
+
+	views: {
+		library: {
+			title: "カードライブラリ",
+			search: "カードを検索",
+			empty: "カードが見つかりません",
+			ungrouped: "なし",
+			group: {
+				none: "グループなし",
+				host: "ホストでグループ化",
+				tag: "タグでグループ化",
+				note: "ノートでグループ化",
+			},
+			sort: {
+				newest: "新しい順",
+				oldest: "古い順",
+				title: "タイトル順",
+			},
+		},
+		linkCheck: {
+			title: "リンク確認",
+			empty:
+				"問題は見つかりませんでした。再確認するには「保管庫内のすべてのカードのリンクを確認」を実行してください",
+			groups: {
+				broken: "リンク切れ（{count}）",
+				redirected: "移動（{count}）",
+				changed: "変更あり（{count}）",
+			},
+			useArchive: "アーカイブを使用",
+			useTarget: "URLを更新",
+			refresh: "カードを更新",
+			dismiss: "無視",
+		},
 	},
 
 	settings: {
@@ -16,10 +155,177 @@ const ja: typeof en = {
 			name: "デフォルト貼り付けを拡張",
 			desc: "デフォルトの貼り付けコマンドでURLを貼り付ける際にリンクメタデータを取得する",
 		},
+		pasteLinkMode: {
+			name: "貼り付けたテキスト内のリンク",
+			desc: "URL以外も含むテキストを貼り付けたときにカードに変換するリンク。残りのテキストはそのまま貼り付けられる",
+			options: {
+				lines: "リンクだけの行",
+				every: "すべてのリンク",
+			},
+		},
+		pasteChooser: {
+			name: "URLの貼り付け方法を選ぶ",
+			desc: "URLを1つだけ貼り付けたときに、カード、Markdownリンク、URLそのまま、埋め込み、または自作のテンプレートから選ぶ。選択はドメインごとに記憶されて先頭に表示される。Altキーを押しながら貼り付けると確認せずに前回の選択を使う",
+		},
 		showInMenuItem: {
 			name: "メニューにコマンドを追加",
 			desc: "右クリックメニューにコマンドを追加するかどうか",
 		},
+		defaultLayout: {
+			name: "カードのデフォルトレイアウト",
+			desc: "layoutキーのないカードのレイアウト。cardlinkブロックで「layout」を指定すると上書きできる",
+			options: {
+				"thumbnail-left": "左にサムネイル",
+				"thumbnail-right": "右にサムネイル",
+				"image-top": "上に大きな画像",
+				compact: "コンパクト (1行)",
+				"text-only": "テキストのみ",
+			},
+		},
+		virtualCards: {
+			name: "リンクをカードとして表示",
+			desc: "ライブプレビューと閲覧ビューで、URLまたはMarkdownリンクだけの行をノートを変更せずにカードとして表示する。ノートのフロントマターに「auto-card-link-virtual: false」を追加するとそのノートでは無効になる",
+		},
+		localizeImages: {
+			name: "画像を保管庫に保存",
+			desc: "新しいカードのファビコンと画像をリモートのファイルにリンクせず保管庫にダウンロードする",
+		},
+		imageFolder: {
+			name: "画像フォルダ",
+			desc: "ダウンロードしたファビコンと画像を保存する保管庫内のフォルダ",
+		},
+		normalizeUrls: {
+			name: "URLを正規化",
+			desc: "カード作成時にページの正規URLを使い（t.coやbit.lyなどの短縮リンクも展開される）、トラッキング用のパラメータを取り除く",
+		},
+		keepOriginalUrl: {
+			name: "元のURLを保持",
+			desc: "正規化した場合に貼り付けたURLをoriginal_urlとして保存する",
+		},
+		trackingParameters: {
+			name: "トラッキングパラメータ",
+			desc: "カードのURLから取り除くクエリパラメータ（1行に1つ）。末尾の*は任意の文字列に一致する（例: utm_*）",
+		},
+		fetchConcurrency: {
+			name: "同時取得数",
+			desc: "多数のリンクを変換・更新する際に同時に取得するページの最大数",
+		},
+		fetchTimeout: {
+			name: "取得のタイムアウト",
+			desc: "リンクのメタデータを待つ秒数。タイムアウトしたリンクは保留中のカードとして貼り付けられ、後で再取得される",
+		},
+		refreshKeepEditedFields: {
+			name: "更新時に編集済みの項目を保持",
+			desc: "カードの更新時、前回取得したメタデータと異なる項目はそのまま残す",
+		},
+		revertFormat: {
+			name: "カードの戻し先の形式",
+			desc: "カードリンクを通常のMarkdownに戻す際の形式",
+			options: {
+				markdown: "Markdownリンク [title](url)",
+				url: "URLのみ",
+				template: "カスタムテンプレート",
+			},
+		},
+		revertTemplate: {
+			name: "カスタムテンプレート",
+			desc: "カスタムテンプレートでカードを戻す際に使用。出力テンプレートと同じプレースホルダーとフィルターを使用できる（例: {{url}}, {{title}}, {{description|truncate:100}}）",
+		},
+		templates: {
+			heading: "出力テンプレート",
+			desc: "貼り付けたリンクをカードの代わりにテンプレートで書き出す。プレースホルダー: {placeholders}。フィルター: {{title|truncate:80}}、{{title|escape}}、{{title|upper}}、{{title|lower}}、{{site_name|default:host}}。プレースホルダーがすべて空の行は出力しない",
+			default: {
+				name: "デフォルトの出力",
+				desc: "貼り付けコマンドとデフォルト貼り付けの拡張で使う。出力ごとに個別のコマンドもある",
+			},
+			cardlink: "カード",
+			namePlaceholder: "テンプレート名",
+			remove: "テンプレートを削除",
+			add: "テンプレートを追加",
+			newName: "新しいテンプレート",
+		},
+		oembed: {
+			heading: "oEmbed",
+			discovery: {
+				name: "ページが提供するoEmbedを使用",
+				desc: "ページがリンクしているoEmbedデータを取得し、タイトル・作成者・サムネイルを改善する",
+			},
+			provider: {
+				desc: "このサイトの組み込みoEmbedエンドポイントを使用する",
+			},
+		},
+		requestProfiles: {
+			heading: "リクエストプロファイル",
+			desc: "特定のドメインのページを取得する際に送信するヘッダー。通常のリクエストにボット確認やログイン画面を返すサイト向け。ボット確認、同意画面、ログイン画面と判断されたページはカードにせず取得失敗として扱う",
+			domain: {
+				name: "ドメイン",
+				desc: "サブドメインにも適用される",
+			},
+			userAgent: "User-Agent",
+			acceptLanguage: "Accept-Language",
+			cookie: {
+				name: "Cookie",
+				desc: "プラグインの設定に平文で保存される",
+			},
+			headers: {
+				name: "追加ヘッダー",
+				desc: "1行に1つ「Name: value」の形式で指定",
+			},
+			remove: "プロファイルを削除",
+			add: "リクエストプロファイルを追加",
+		},
+		linkCheck: {
+			heading: "リンク確認",
+			record: {
+				name: "結果をカードに記録",
+				desc: "確認したカードに結果をstatus、日付をcheckedとして書き込む",
+			},
+			timeout: {
+				name: "タイムアウト",
+				desc: "リンク切れと判断するまでにページを待つ秒数",
+			},
+			archiveEndpoint: {
+				name: "アーカイブのエンドポイント",
+				desc: "リンク切れのアーカイブを探すURL。{url}はリンクに置き換えられる。Wayback Machineの可用性APIの形式の応答は読み取られ、それ以外はこのURL自体を使用する",
+			},
+		},
+		privacy: {
+			heading: "プライバシー",
+			desc: "取得が許可されていないリンクはURLだけのカードとして貼り付けられる。ノートのフロントマターに {key}: false を設定すると、そのノートに貼り付けたリンクは取得されない",
+			denyList: {
+				name: "取得しないホスト",
+				desc: "接続しないホストを1行に1つ。ドメイン(サブドメインを含む)、*.corp のような*を含むパターン、または 10.0.0.0/8 のようなIPv4の範囲",
+				addPreset: "プライベートネットワークを追加",
+			},
+			allowList: {
+				name: "取得するホスト",
+				desc: "空でなければ、いずれかのパターンに一致するホストにのみ接続する。形式は上と同じ",
+			},
+			loadRemoteImages: {
+				name: "外部の画像を読み込む",
+				desc: "他のサイトにあるファビコンとサムネイルをすぐに表示する。オフにすると、カードに画像を読み込むボタンが表示される",
+			},
+		},
+		cache: {
+			heading: "メタデータキャッシュ",
+			enabled: {
+				name: "取得したメタデータをキャッシュ",
+				desc: "最近取得したURLのメタデータを再取得せずに再利用する",
+			},
+			ttlDays: {
+				name: "キャッシュの有効期間（日）",
+				desc: "キャッシュされたエントリを再取得するまでの日数。0の場合は無期限",
+			},
+			maxEntries: {
+				name: "キャッシュの最大エントリ数",
+				desc: "この数を超えると最近使われていないエントリから削除される。0の場合は無制限",
+			},
+			stats: {
+				name: "キャッシュの統計",
+				desc: "{entries}件（{size} KB）、このセッションのヒット {hits} / ミス {misses}、最古のエントリ: {oldest}",
+			},
+			clear: "キャッシュを消去",
+		},
 	},
 };
 
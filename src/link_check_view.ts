@@ -0,0 +1,174 @@
+/**
+ * @fileoverview View listing the problems found by the link checker.
+ * @module link_check_view
+ */
+
+import { ButtonComponent, ItemView, type WorkspaceLeaf } from "obsidian";
+
+import { i18n } from "src/lang/i18n";
+import type { CheckOutcome, CheckResult } from "src/link_checker";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Type id of the link check view.
+ */
+export const LINK_CHECK_VIEW_TYPE = "auto-card-link-check";
+
+/**
+ * Order of the result groups in the view.
+ */
+const groups: Exclude<CheckOutcome, "ok">[] = [
+	"broken",
+	"redirected",
+	"changed",
+];
+
+/**
+ * Lists broken, redirected and changed cards grouped by outcome, with a link
+ * to the card and a fix for each of them.
+ * @extends ItemView
+ */
+export class LinkCheckView extends ItemView {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new LinkCheckView.
+	 * @param leaf - The leaf the view is opened in
+	 * @param plugin - The plugin instance
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: ObsidianAutoCardLink) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Gets the type id of the view.
+	 * @returns The view type
+	 */
+	getViewType(): string {
+		return LINK_CHECK_VIEW_TYPE;
+	}
+
+	/**
+	 * Gets the title shown in the tab header.
+	 * @returns The display text
+	 */
+	getDisplayText(): string {
+		return i18n.views.linkCheck.title;
+	}
+
+	/**
+	 * Gets the icon of the view.
+	 * @returns The icon id
+	 */
+	getIcon(): string {
+		return "link-2-off";
+	}
+
+	/**
+	 * Renders the results when the view is opened.
+	 */
+	async onOpen(): Promise<void> {
+		this.render();
+	}
+
+	/**
+	 * Renders the results of the last check.
+	 */
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("auto-card-link-check-view");
+
+		const results = this.plugin.checker.results;
+		if (results.length === 0) {
+			contentEl.createDiv({
+				cls: "auto-card-link-check-empty",
+				text: i18n.views.linkCheck.empty,
+			});
+			return;
+		}
+
+		for (const outcome of groups) {
+			const groupResults = results.filter((r) => r.outcome === outcome);
+			if (groupResults.length === 0) continue;
+
+			contentEl.createEl("h4", {
+				text: i18n.views.linkCheck.groups[outcome].replace(
+					"{count}",
+					String(groupResults.length),
+				),
+			});
+			for (const result of groupResults) {
+				this.renderResult(
+					contentEl.createDiv("auto-card-link-check-item"),
+					result,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Renders a single result with its source link and actions.
+	 * @param itemEl - The element to render into
+	 * @param result - The result to render
+	 */
+	private renderResult(itemEl: HTMLElement, result: CheckResult): void {
+		itemEl.setAttr("data-auto-card-link-outcome", result.outcome);
+
+		itemEl.createDiv({
+			cls: "auto-card-link-check-title",
+			text: result.card.title,
+		});
+		itemEl.createDiv({
+			cls: "auto-card-link-check-url",
+			text: result.card.url,
+		});
+		if (result.detail) {
+			itemEl.createDiv({
+				cls: "auto-card-link-check-detail",
+				text: result.detail,
+			});
+		}
+
+		const sourceEl = itemEl.createEl("a", {
+			cls: "auto-card-link-check-source",
+			text: `${result.file.path}:${result.block.startLine + 1}`,
+		});
+		sourceEl.addEventListener("click", () => {
+			this.app.workspace.getLeaf(false).openFile(result.file, {
+				eState: { line: result.block.startLine },
+			});
+		});
+
+		const actionsEl = itemEl.createDiv("auto-card-link-check-actions");
+		const texts = i18n.views.linkCheck;
+		switch (result.outcome) {
+			case "broken":
+				new ButtonComponent(actionsEl)
+					.setButtonText(texts.useArchive)
+					.onClick(() => this.plugin.checker.useArchive(result));
+				break;
+			case "redirected":
+				new ButtonComponent(actionsEl)
+					.setButtonText(texts.useTarget)
+					.onClick(() => this.plugin.checker.useTarget(result));
+				break;
+			case "changed":
+				new ButtonComponent(actionsEl)
+					.setButtonText(texts.refresh)
+					.onClick(async () => {
+						await this.plugin.refresher.refreshBlockAt(
+							result.file,
+							result.block.startLine,
+						);
+						this.plugin.checker.dismiss(result);
+					});
+				break;
+		}
+		new ButtonComponent(actionsEl)
+			.setButtonText(texts.dismiss)
+			.onClick(() => this.plugin.checker.dismiss(result));
+	}
+}
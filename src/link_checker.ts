@@ -0,0 +1,388 @@
+/**
+ * @fileoverview Checks the links of existing cards for broken, redirected and changed pages.
+ * @module link_checker
+ */
+
+import { moment, Notice, requestUrl, type TFile } from "obsidian";
+
+import { type CardLinkBlock, CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { CharsetDecoder } from "src/charset_decoder";
+import { Concurrency } from "src/concurrency";
+import type { CardStatus, LinkMetadata } from "src/interfaces";
+import { InterstitialDetector } from "src/interstitial_detector";
+import { i18n } from "src/lang/i18n";
+import { LINK_CHECK_VIEW_TYPE, LinkCheckView } from "src/link_check_view";
+import { LinkMetadataParser } from "src/link_metadata_parser";
+import type ObsidianAutoCardLink from "src/main";
+import { LinkMetadataCache } from "src/metadata_cache";
+import { RequestProfiles } from "src/request_profiles";
+import { DEFAULT_TRACKING_PARAMETERS, UrlNormalizer } from "src/url_normalizer";
+
+/**
+ * Outcome of checking a single card.
+ */
+export type CheckOutcome = "ok" | "broken" | "redirected" | "changed";
+
+/**
+ * The result of checking a single card.
+ */
+export interface CheckResult {
+	/** The file containing the card */
+	file: TFile;
+	/** The block as it was found when the card was checked */
+	block: CardLinkBlock;
+	/** The metadata of the card */
+	card: LinkMetadata;
+	/** What the check found */
+	outcome: CheckOutcome;
+	/** The HTTP status or error of broken links, or the new title of changed pages */
+	detail?: string;
+	/** The URL the page now declares, for redirected links */
+	target?: string;
+}
+
+/**
+ * Walks the cards of the vault, requests every URL and records what it found.
+ * Results are listed in the link check view, where problems can be fixed.
+ */
+export class LinkChecker {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** Problems found by the last check, shown in the link check view */
+	results: CheckResult[] = [];
+	/** Whether a check is running */
+	private running = false;
+
+	/**
+	 * Creates a new LinkChecker.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Checks every card in the given files, records the outcome in the cards
+	 * if enabled, and shows the problems in the link check view.
+	 * @param files - The files to check
+	 */
+	async checkFiles(files: TFile[]): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			const items: { file: TFile; block: CardLinkBlock; card: LinkMetadata }[] =
+				[];
+			for (const file of files) {
+				if (!this.plugin.policy.allowsFile(file)) continue;
+				const text = await this.plugin.app.vault.cachedRead(file);
+				for (const block of CardLinkBlocks.find(text)) {
+					try {
+						const card = CardLinkSchema.parse(block.source);
+						if (
+							card.status !== "pending" &&
+							this.plugin.policy.allowsUrl(card.url)
+						) {
+							items.push({ file, block, card });
+						}
+					} catch {
+						// invalid blocks are reported by the renderer
+					}
+				}
+			}
+			if (items.length === 0) {
+				new Notice(i18n.notices.noCardFound);
+				return;
+			}
+
+			const notice = new Notice("", 0);
+			const results = await Concurrency.map(
+				items,
+				this.plugin.settings?.fetchConcurrency ?? 1,
+				async (item) => ({ ...item, ...(await this.check(item.card)) }),
+				(done, total) =>
+					notice.setMessage(
+						i18n.notices.checkProgress
+							.replace("{done}", String(done))
+							.replace("{total}", String(total)),
+					),
+			);
+			notice.hide();
+
+			if (this.plugin.settings?.recordCheckResults) {
+				await this.record(results);
+			}
+
+			this.results = results.filter((result) => result.outcome !== "ok");
+			new Notice(
+				i18n.notices.checkDone
+					.replace("{count}", String(results.length))
+					.replace("{problems}", String(this.results.length)),
+			);
+			await this.showView();
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Opens the link check view, or updates it if it is already open.
+	 */
+	async showView(): Promise<void> {
+		const { workspace } = this.plugin.app;
+		let leaf = workspace.getLeavesOfType(LINK_CHECK_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+			await leaf.setViewState({ type: LINK_CHECK_VIEW_TYPE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+		this.refreshViews();
+	}
+
+	/**
+	 * Replaces the URL of a broken card with an archived copy.
+	 * @param result - The result of the broken card
+	 */
+	async useArchive(result: CheckResult): Promise<void> {
+		const archived = await this.findArchive(result.card.url);
+		if (!archived) {
+			new Notice(i18n.notices.archiveNotFound);
+			return;
+		}
+
+		await this.update(result, {
+			url: archived,
+			originalUrl: result.card.originalUrl ?? result.card.url,
+			status: "archived",
+		});
+	}
+
+	/**
+	 * Replaces the URL of a redirected card with the URL the page now declares.
+	 * @param result - The result of the redirected card
+	 */
+	async useTarget(result: CheckResult): Promise<void> {
+		if (!result.target) return;
+
+		await this.update(result, {
+			url: result.target,
+			host: new URL(result.target).hostname,
+			originalUrl: this.plugin.settings?.keepOriginalUrl
+				? (result.card.originalUrl ?? result.card.url)
+				: result.card.originalUrl,
+			status: undefined,
+		});
+	}
+
+	/**
+	 * Removes a result from the list without changing the card.
+	 * @param result - The result to dismiss
+	 */
+	dismiss(result: CheckResult): void {
+		this.results = this.results.filter((r) => r !== result);
+		this.refreshViews();
+	}
+
+	/**
+	 * Requests the URL of a card and compares the page with the card.
+	 * @param card - The metadata of the card
+	 * @returns The outcome with its detail
+	 */
+	private async check(
+		card: LinkMetadata,
+	): Promise<Pick<CheckResult, "outcome" | "detail" | "target">> {
+		const profile = RequestProfiles.find(
+			card.url,
+			this.plugin.settings?.requestProfiles ?? [],
+		);
+		const timeout = (this.plugin.settings?.checkTimeoutSeconds ?? 15) * 1000;
+
+		let res: Awaited<ReturnType<typeof requestUrl>>;
+		try {
+			res = await Concurrency.withTimeout(
+				requestUrl({
+					url: card.url,
+					headers: profile && RequestProfiles.getHeaders(profile),
+					throw: false,
+				}),
+				timeout,
+				i18n.notices.checkTimeout,
+			);
+		} catch (error) {
+			return {
+				outcome: "broken",
+				detail: error instanceof Error ? error.message : String(error),
+			};
+		}
+		if (res.status >= 400) {
+			return { outcome: "broken", detail: `HTTP ${res.status}` };
+		}
+
+		// archived copies are only checked for being reachable
+		const contentType = res.headers["content-type"] ?? "";
+		if (!contentType.includes("html") || card.status === "archived") {
+			return { outcome: "ok" };
+		}
+
+		const parser = new LinkMetadataParser(
+			card.url,
+			CharsetDecoder.decode(res.arrayBuffer, contentType),
+		);
+		// a bot check tells nothing about the page behind it
+		if (InterstitialDetector.isInterstitial(parser.htmlDoc)) {
+			return { outcome: "ok" };
+		}
+
+		const rules =
+			this.plugin.settings?.trackingParameters ?? DEFAULT_TRACKING_PARAMETERS;
+		const target = UrlNormalizer.stripTracking(
+			UrlNormalizer.resolve(card.url, parser.getCanonicalUrl()),
+			rules,
+		);
+		if (
+			LinkMetadataCache.normalizeUrl(target) !==
+			LinkMetadataCache.normalizeUrl(
+				UrlNormalizer.stripTracking(card.url, rules),
+			)
+		) {
+			return { outcome: "redirected", detail: target, target };
+		}
+
+		const title = LinkMetadataParser.clean(parser.getTitle());
+		if (title && title !== card.title) {
+			return { outcome: "changed", detail: title };
+		}
+		return { outcome: "ok" };
+	}
+
+	/**
+	 * Writes the outcome and the check date into the checked cards.
+	 * @param results - The results of every checked card
+	 */
+	private async record(results: CheckResult[]): Promise<void> {
+		const checked = moment().format("YYYY-MM-DD");
+		const byFile = new Map<TFile, CheckResult[]>();
+		for (const result of results) {
+			byFile.set(result.file, [...(byFile.get(result.file) ?? []), result]);
+		}
+
+		for (const [file, fileResults] of byFile) {
+			await this.plugin.app.vault.process(file, (data) => {
+				// Rewrite from the bottom so earlier line numbers stay valid
+				const sorted = [...fileResults].sort(
+					(a, b) => b.block.startLine - a.block.startLine,
+				);
+				for (const result of sorted) {
+					const block = LinkChecker.locate(data, result.block);
+					if (!block) continue;
+
+					const status: CardStatus | undefined =
+						result.outcome === "ok"
+							? result.card.status === "archived"
+								? "archived"
+								: undefined
+							: result.outcome;
+					const card = { ...result.card, status, checked };
+					const yamlLines = CardLinkSchema.serialize(card);
+					data = CardLinkBlocks.replaceBody(data, block, yamlLines);
+					// the line number may drift, locate() falls back to the source
+					result.card = card;
+					result.block = { ...block, source: yamlLines.join("\n") };
+				}
+				return data;
+			});
+		}
+	}
+
+	/**
+	 * Applies a change to the card of a result and removes the result from the list.
+	 * @param result - The result whose card is changed
+	 * @param change - The fields to change
+	 */
+	private async update(
+		result: CheckResult,
+		change: Partial<LinkMetadata>,
+	): Promise<void> {
+		let updated = false;
+		await this.plugin.app.vault.process(result.file, (data) => {
+			const block = LinkChecker.locate(data, result.block);
+			if (!block) return data;
+
+			updated = true;
+			return CardLinkBlocks.replaceBody(
+				data,
+				block,
+				CardLinkSchema.serialize({ ...result.card, ...change }),
+			);
+		});
+
+		if (!updated) {
+			new Notice(i18n.notices.noCardFound);
+			return;
+		}
+		this.dismiss(result);
+	}
+
+	/**
+	 * Looks up an archived copy of a URL with the configured endpoint.
+	 * Endpoints answering in the format of the Wayback Machine availability API
+	 * are read; any other successful answer means the endpoint URL itself
+	 * leads to the copy.
+	 * @param url - The URL to look up
+	 * @returns The URL of the archived copy or undefined if there is none
+	 */
+	private async findArchive(url: string): Promise<string | undefined> {
+		const endpoint = this.plugin.settings?.archiveEndpoint ?? "";
+		const placeholder = endpoint.indexOf("{url}");
+		if (placeholder < 0) return;
+
+		const query = endpoint.indexOf("?");
+		const lookup = endpoint.replace(
+			"{url}",
+			query >= 0 && query < placeholder ? encodeURIComponent(url) : url,
+		);
+
+		try {
+			const res = await requestUrl({ url: lookup, throw: false });
+			if (res.status >= 400) return;
+			if (!res.headers["content-type"]?.includes("json")) return lookup;
+
+			const closest = res.json?.archived_snapshots?.closest;
+			if (closest?.available && typeof closest.url === "string") {
+				return closest.url.replace(/^http:/, "https:");
+			}
+		} catch {
+			// an unreachable endpoint is reported like a missing copy
+		}
+	}
+
+	/**
+	 * Re-renders every open link check view.
+	 */
+	private refreshViews(): void {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType(
+			LINK_CHECK_VIEW_TYPE,
+		)) {
+			if (leaf.view instanceof LinkCheckView) leaf.view.render();
+		}
+	}
+
+	/**
+	 * Finds a block again after the file may have changed.
+	 * @param text - The current file content
+	 * @param block - The block as it was found before
+	 * @returns The block or undefined if it was removed or edited
+	 */
+	private static locate(
+		text: string,
+		block: CardLinkBlock,
+	): CardLinkBlock | undefined {
+		const blocks = CardLinkBlocks.find(text);
+		return (
+			blocks.find(
+				(b) => b.startLine === block.startLine && b.source === block.source,
+			) ?? blocks.find((b) => b.source === block.source)
+		);
+	}
+}
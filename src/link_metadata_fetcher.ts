@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Fetcher for retrieving link metadata over the network or from the cache.
+ * @module link_metadata_fetcher
+ */
+
+import { requestUrl } from "obsidian";
+import { CharsetDecoder } from "src/charset_decoder";
+import { Concurrency } from "src/concurrency";
+import { FileMetadata } from "src/file_metadata";
+import type { LinkMetadata } from "src/interfaces";
+import { InterstitialDetector } from "src/interstitial_detector";
+import { i18n } from "src/lang/i18n";
+import { LinkMetadataParser } from "src/link_metadata_parser";
+import type ObsidianAutoCardLink from "src/main";
+import { OEmbed } from "src/oembed";
+import { RequestProfiles } from "src/request_profiles";
+
+/**
+ * Why a fetch returned no metadata: the fetch policy denies the URL, the site
+ * served a bot check or login page instead, or the link couldn't be fetched or read.
+ */
+export type FetchFailure = "denied" | "interstitial" | "unavailable";
+
+/**
+ * Options for a single metadata fetch.
+ */
+export interface FetchOptions {
+	/** Skip the cache lookup and always fetch from the network */
+	bypassCache?: boolean;
+	/** Reverts the placeholder of the fetch; makes the fetch cancellable */
+	onCancel?: () => void;
+	/** Told why the fetch returned no metadata */
+	onFailure?: (reason: FetchFailure) => void;
+}
+
+/**
+ * Fetches link metadata, consulting the persistent cache first.
+ * Page metadata is combined with oEmbed data for supported providers and
+ * with the results of site-specific extractors.
+ */
+export class LinkMetadataFetcher {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new LinkMetadataFetcher.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Fetches and parses metadata from a URL.
+	 * Successful results are stored in the cache. Fetches are listed in the
+	 * status bar and give up after the fetch timeout. URLs denied by the fetch
+	 * policy are never fetched. The reason of a failure is passed to
+	 * `options.onFailure`.
+	 * @param url - The URL to fetch metadata from
+	 * @param options - Fetch options
+	 * @returns The parsed metadata or undefined if fetch fails or times out
+	 */
+	async fetch(
+		url: string,
+		options: FetchOptions = {},
+	): Promise<LinkMetadata | undefined> {
+		if (!options.bypassCache) {
+			const cached = this.plugin.cache.get(url);
+			if (cached) return cached;
+		}
+		if (!this.plugin.policy.allowsUrl(url)) {
+			options.onFailure?.("denied");
+			return;
+		}
+
+		const timeout = (this.plugin.settings?.fetchTimeoutSeconds ?? 20) * 1000;
+		try {
+			const result = await this.plugin.fetches.track(
+				url,
+				() =>
+					Concurrency.withTimeout(
+						this.fetchFromNetwork(url),
+						timeout,
+						i18n.notices.fetchTimeout.replace("{url}", url),
+					),
+				options.onCancel,
+			);
+			if (typeof result !== "string") return result;
+			options.onFailure?.(result);
+			return;
+		} catch (e) {
+			console.log(e);
+			options.onFailure?.("unavailable");
+			return;
+		}
+	}
+
+	/**
+	 * Fetches metadata from the page, oEmbed and site-specific extractors.
+	 * @param url - The URL to fetch metadata from
+	 * @returns The parsed metadata or the reason it couldn't be fetched
+	 */
+	private async fetchFromNetwork(
+		url: string,
+	): Promise<LinkMetadata | FetchFailure> {
+		const extracted = await this.plugin.extractors.extract(url, (resource) =>
+			this.plugin.policy.allowsUrl(resource),
+		);
+		const siteMetadata =
+			extracted && LinkMetadataParser.cleanMetadata(extracted.metadata);
+		if (extracted?.extractor.mode === "instead" && siteMetadata?.title) {
+			const { origin } = new URL(url);
+			const linkMetadata = LinkMetadataFetcher.merge(url, undefined, {
+				favicon: `${origin}/favicon.ico`,
+				...siteMetadata,
+			});
+			return this.store(url, linkMetadata) ?? "unavailable";
+		}
+
+		const disabled = this.plugin.settings?.oembedDisabledProviders ?? [];
+		const provider = OEmbed.findProvider(url, disabled);
+		const providerUrl = provider && OEmbed.getRequestUrl(provider, url);
+		const [page, providerEmbed] = await Promise.all([
+			this.fetchPage(url),
+			providerUrl && this.plugin.policy.allowsUrl(providerUrl)
+				? OEmbed.fetch(providerUrl)
+				: undefined,
+		]);
+
+		// files get a card built from the response itself
+		if (typeof page === "object" && !(page instanceof LinkMetadataParser)) {
+			const linkMetadata = LinkMetadataFetcher.merge(url, page, siteMetadata);
+			return this.store(url, linkMetadata) ?? "unavailable";
+		}
+
+		const parser = typeof page === "object" ? page : undefined;
+		let embed = providerEmbed;
+		if (!embed && parser && this.plugin.settings?.oembedDiscovery) {
+			const endpoint = OEmbed.discover(parser.htmlDoc, url);
+			// the page chooses the endpoint, so it must pass the fetch policy too
+			if (
+				endpoint &&
+				!OEmbed.isDisabledEndpoint(endpoint, disabled) &&
+				this.plugin.policy.allowsUrl(endpoint)
+			) {
+				embed = await OEmbed.fetch(endpoint);
+			}
+		}
+
+		const linkMetadata = LinkMetadataFetcher.merge(
+			url,
+			LinkMetadataFetcher.merge(url, await parser?.parse(), embed),
+			siteMetadata,
+		);
+		// oEmbed or an extractor can still make up for a failed page
+		return (
+			this.store(url, linkMetadata) ??
+			(typeof page === "string" ? page : "unavailable")
+		);
+	}
+
+	/**
+	 * Stores fetched metadata in the cache.
+	 * @param url - The URL the metadata was fetched from
+	 * @param linkMetadata - The fetched metadata, if any
+	 * @returns The metadata
+	 */
+	private store(
+		url: string,
+		linkMetadata: LinkMetadata | undefined,
+	): LinkMetadata | undefined {
+		if (!linkMetadata) return;
+		this.plugin.cache.set(url, linkMetadata);
+		return linkMetadata;
+	}
+
+	/**
+	 * Fetches a page and prepares it for parsing.
+	 * Headers of the matching request profile are sent along, and bot checks or
+	 * login walls served instead of the page count as failures. Responses that
+	 * aren't HTML are turned into file cards from their Content-Type; media and
+	 * archives are only inspected with a HEAD request, and get a card built from
+	 * their URL when that fails.
+	 * @param url - The URL of the page
+	 * @returns The parser for the page, the card of a file, or the reason the page couldn't be fetched
+	 */
+	private async fetchPage(
+		url: string,
+	): Promise<LinkMetadataParser | LinkMetadata | FetchFailure> {
+		const profile = RequestProfiles.find(
+			url,
+			this.plugin.settings?.requestProfiles ?? [],
+		);
+		const headers = profile && RequestProfiles.getHeaders(profile);
+
+		// never download media and archives, even when the HEAD request fails
+		if (FileMetadata.isHeadOnly(url)) {
+			return (
+				(await this.fetchHead(url, headers)) ?? FileMetadata.buildFromUrl(url)
+			);
+		}
+
+		const res = await (async () => {
+			try {
+				return await requestUrl({ url, headers });
+			} catch (e) {
+				console.log(e);
+				return;
+			}
+		})();
+		if (!res || res.status !== 200) {
+			console.log(`bad response. response status code was ${res?.status}`);
+			return "unavailable";
+		}
+
+		const kind = FileMetadata.getKind(res.headers["content-type"]);
+		if (kind)
+			return FileMetadata.build(url, kind, res.headers, res.arrayBuffer);
+
+		// res.text always assumes UTF-8, so decode the raw body ourselves
+		const parser = new LinkMetadataParser(
+			url,
+			CharsetDecoder.decode(res.arrayBuffer, res.headers["content-type"]),
+			(resource) => this.plugin.policy.allowsUrl(resource),
+		);
+		if (InterstitialDetector.isInterstitial(parser.htmlDoc)) {
+			console.log(`bot check or login page returned instead of ${url}`);
+			return "interstitial";
+		}
+		return parser;
+	}
+
+	/**
+	 * Builds the card of a file from the headers of a HEAD request.
+	 * @param url - The URL of the file
+	 * @param headers - Headers of the matching request profile
+	 * @returns The card, or undefined if the request fails or returns a page
+	 */
+	private async fetchHead(
+		url: string,
+		headers: Record<string, string> | undefined,
+	): Promise<LinkMetadata | undefined> {
+		try {
+			const res = await requestUrl({
+				url,
+				method: "HEAD",
+				headers,
+				throw: false,
+			});
+			if (res.status !== 200) return;
+			const kind = FileMetadata.getKind(res.headers["content-type"]);
+			return kind && FileMetadata.build(url, kind, res.headers);
+		} catch (e) {
+			console.log(e);
+			return;
+		}
+	}
+
+	/**
+	 * Merges page metadata with oEmbed metadata, preferring the oEmbed values.
+	 * @param url - The URL of the page
+	 * @param page - Metadata parsed from the page, if it could be fetched
+	 * @param embed - Metadata from the oEmbed response, if any
+	 * @returns The merged metadata or undefined if no title was found
+	 */
+	private static merge(
+		url: string,
+		page: LinkMetadata | undefined,
+		embed: Partial<LinkMetadata> | undefined,
+	): LinkMetadata | undefined {
+		if (!embed) return page;
+
+		const base = page ?? {
+			url,
+			title: "",
+			host: new URL(url).hostname,
+			indent: 0,
+		};
+		const merged: LinkMetadata = { ...base };
+		for (const [key, value] of Object.entries(embed)) {
+			if (value !== undefined) Object.assign(merged, { [key]: value });
+		}
+		return merged.title ? merged : undefined;
+	}
+}
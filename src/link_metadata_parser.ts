@@ -3,8 +3,55 @@
  * @module link_metadata_parser
  */
 
+import { requestUrl } from "obsidian";
+
 import type { LinkMetadata } from "src/interfaces";
 
+/**
+ * JSON-LD types that describe the site rather than the linked content.
+ */
+const siteTypes = new Set([
+	"WebSite",
+	"Organization",
+	"NewsMediaOrganization",
+	"Person",
+	"BreadcrumbList",
+	"SiteNavigationElement",
+	"ImageObject",
+]);
+
+/**
+ * Free-text fields that are cleaned before they are stored.
+ */
+const textFields = [
+	"title",
+	"description",
+	"siteName",
+	"author",
+	"published",
+	"type",
+] as const;
+
+/**
+ * An icon declared by the page.
+ */
+interface IconCandidate {
+	/** The absolute URL of the icon */
+	url: string;
+	/** The largest size of the icon in pixels */
+	size: number;
+}
+
+/**
+ * Size in pixels a favicon should have to look sharp on a card.
+ */
+const preferredIconSize = 32;
+
+/**
+ * Size assumed for `icon` links that don't state one.
+ */
+const defaultIconSize = 16;
+
 /**
  * Parses HTML content to extract link metadata (title, description, images, etc.).
  */
@@ -13,14 +60,24 @@ export class LinkMetadataParser {
 	url: string;
 	/** The parsed HTML document */
 	htmlDoc: Document;
+	/** Decides whether a resource the page links to, such as its manifest, may be fetched */
+	canFetch: (url: string) => boolean;
+	/** JSON-LD nodes of the document, collected on first use */
+	private jsonLdNodes?: Record<string, unknown>[];
 
 	/**
 	 * Creates a new LinkMetadataParser.
 	 * @param url - The URL of the page
 	 * @param htmlText - The raw HTML content to parse
+	 * @param canFetch - Decides whether a linked resource may be fetched; nothing is fetched by default
 	 */
-	constructor(url: string, htmlText: string) {
+	constructor(
+		url: string,
+		htmlText: string,
+		canFetch: (url: string) => boolean = () => false,
+	) {
 		this.url = url;
+		this.canFetch = canFetch;
 
 		const parser = new DOMParser();
 		const htmlDoc = parser.parseFromString(htmlText, "text/html");
@@ -32,21 +89,13 @@ export class LinkMetadataParser {
 	 * @returns The extracted metadata or undefined if title is not found
 	 */
 	async parse(): Promise<LinkMetadata | undefined> {
-		const title = this.getTitle()
-			?.replace(/\r\n|\n|\r/g, "")
-			.replace(/\\/g, "\\\\")
-			.replace(/"/g, '\\"')
-			.trim();
+		const title = LinkMetadataParser.clean(this.getTitle());
 		if (!title) return;
 
-		const description = this.getDescription()
-			?.replace(/\r\n|\n|\r/g, "")
-			.replace(/\\/g, "\\\\")
-			.replace(/"/g, '\\"')
-			.trim();
+		const description = LinkMetadataParser.clean(this.getDescription());
 		const { hostname } = new URL(this.url);
 		const favicon = await this.getFavicon();
-		const image = await this.getImage();
+		const image = this.getImage();
 
 		return {
 			url: this.url,
@@ -55,110 +104,425 @@ export class LinkMetadataParser {
 			host: hostname,
 			favicon: favicon,
 			image: image,
+			siteName: LinkMetadataParser.clean(this.getSiteName()),
+			author: LinkMetadataParser.clean(this.getAuthor()),
+			published: LinkMetadataParser.clean(this.getPublished()),
+			type: LinkMetadataParser.clean(this.getType()),
+			canonicalUrl: this.getCanonicalUrl(),
 			indent: 0,
 		};
 	}
 
 	/**
-	 * Extracts the page title from Open Graph meta tag or title element.
-	 * @returns The page title or undefined if not found
+	 * Removes line breaks and surrounding whitespace, so text fits on a card.
+	 * @param text - The text to clean
+	 * @returns The cleaned text
 	 */
-	private getTitle(): string | undefined {
-		const ogTitle = this.htmlDoc
-			.querySelector("meta[property='og:title']")
-			?.getAttr("content");
-		if (ogTitle) return ogTitle;
+	static clean(text: string | undefined): string | undefined {
+		return text?.replace(/\r\n|\n|\r/g, "").trim();
+	}
 
-		const title = this.htmlDoc.querySelector("title")?.textContent;
-		if (title) return title;
+	/**
+	 * Cleans the free-text fields of metadata that didn't come from the parser,
+	 * such as the results of site extractors.
+	 * @param linkMetadata - The metadata
+	 * @returns A copy with cleaned text fields
+	 */
+	static cleanMetadata<T extends Partial<LinkMetadata>>(linkMetadata: T): T {
+		const cleaned: T = { ...linkMetadata };
+		for (const field of textFields) {
+			if (cleaned[field] !== undefined) {
+				cleaned[field] = LinkMetadataParser.clean(cleaned[field]);
+			}
+		}
+		if (cleaned.badges) {
+			cleaned.badges = cleaned.badges.map(
+				(badge) => LinkMetadataParser.clean(badge) ?? "",
+			);
+		}
+		return cleaned;
 	}
 
 	/**
-	 * Extracts the page description from Open Graph or meta description tags.
+	 * Extracts the URL the page declares as its address.
+	 * Tries the canonical link, Open Graph, then the target of a meta refresh,
+	 * which is how shorteners such as t.co redirect.
+	 * @returns The absolute http(s) URL or undefined if not found
+	 */
+	getCanonicalUrl(): string | undefined {
+		const refresh = this.htmlDoc
+			.querySelector("meta[http-equiv='refresh' i]")
+			?.getAttr("content")
+			?.match(/url\s*=\s*['"]?([^'"]+)/i)?.[1];
+		const candidates = [
+			this.htmlDoc.querySelector("link[rel='canonical' i]")?.getAttr("href"),
+			this.getMeta("og:url"),
+			refresh,
+		];
+
+		for (const candidate of candidates) {
+			const url = this.resolveUrl(candidate);
+			if (url) return url;
+		}
+	}
+
+	/**
+	 * Extracts the page title.
+	 * Tries Open Graph, Twitter card, JSON-LD headline, then the title element.
+	 * @returns The page title or undefined if not found
+	 */
+	getTitle(): string | undefined {
+		return (
+			this.getMeta("og:title", "twitter:title") ??
+			LinkMetadataParser.toText(this.getJsonLd("headline")) ??
+			(this.htmlDoc.querySelector("title")?.textContent?.trim() || undefined) ??
+			LinkMetadataParser.toText(this.getJsonLd("name"))
+		);
+	}
+
+	/**
+	 * Extracts the page description.
+	 * Tries Open Graph, Twitter card, JSON-LD, then the meta description tag.
 	 * @returns The page description or undefined if not found
 	 */
 	private getDescription(): string | undefined {
-		const ogDescription = this.htmlDoc
-			.querySelector("meta[property='og:description']")
-			?.getAttr("content");
-		if (ogDescription) return ogDescription;
+		return (
+			this.getMeta("og:description", "twitter:description") ??
+			LinkMetadataParser.toText(this.getJsonLd("description")) ??
+			this.getMeta("description")
+		);
+	}
 
-		const metaDescription = this.htmlDoc
-			.querySelector("meta[name='description']")
-			?.getAttr("content");
-		if (metaDescription) return metaDescription;
+	/**
+	 * Extracts the name of the site.
+	 * @returns The site name or undefined if not found
+	 */
+	private getSiteName(): string | undefined {
+		return (
+			this.getMeta("og:site_name") ??
+			LinkMetadataParser.toText(this.getJsonLd("publisher")) ??
+			this.getMeta("application-name", "apple-mobile-web-app-title")
+		);
 	}
 
 	/**
-	 * Extracts the favicon URL from the link element.
-	 * @returns The resolved favicon URL or undefined if not found
+	 * Extracts the author of the page.
+	 * `article:author` is skipped when it only holds a profile URL.
+	 * @returns The author or undefined if not found
 	 */
-	private async getFavicon(): Promise<string | undefined> {
-		const favicon = this.htmlDoc
-			.querySelector("link[rel='icon']")
-			?.getAttr("href");
-		if (favicon) return await this.fixImageUrl(favicon);
+	private getAuthor(): string | undefined {
+		const articleAuthor = this.getMeta("article:author");
+		return (
+			this.getMeta("author") ??
+			(articleAuthor && !/^https?:\/\//.test(articleAuthor)
+				? articleAuthor
+				: undefined) ??
+			LinkMetadataParser.toText(this.getJsonLd("author")) ??
+			this.getMeta("twitter:creator")
+		);
 	}
 
 	/**
-	 * Extracts the Open Graph image URL.
-	 * @returns The resolved image URL or undefined if not found
+	 * Extracts the publication date of the page.
+	 * @returns The date as YYYY-MM-DD, or the raw value if it can't be parsed
 	 */
-	private async getImage(): Promise<string | undefined> {
-		const ogImage = this.htmlDoc
-			.querySelector("meta[property='og:image']")
-			?.getAttr("content");
-		if (ogImage) return await this.fixImageUrl(ogImage);
+	private getPublished(): string | undefined {
+		const published =
+			this.getMeta(
+				"article:published_time",
+				"citation_publication_date",
+				"dc.date",
+				"dcterms.created",
+				"date",
+				"pubdate",
+				"publish-date",
+			) ?? LinkMetadataParser.toText(this.getJsonLd("datePublished"));
+		if (!published) return;
+
+		const isoDate = /^\d{4}-\d{2}-\d{2}/.exec(published);
+		if (isoDate) return isoDate[0];
+
+		const date = new Date(published);
+		if (Number.isNaN(date.getTime())) return published;
+		return date.toISOString().slice(0, 10);
 	}
 
 	/**
-	 * Resolves relative or protocol-relative image URLs to absolute URLs.
-	 * Tests accessibility via https first, then http.
-	 * @param url - The image URL to resolve
-	 * @returns The resolved absolute URL
+	 * Extracts the type of the page (e.g., "article" or "video.other").
+	 * @returns The type or undefined if not found
 	 */
-	private async fixImageUrl(url: string | undefined): Promise<string> {
-		if (url === undefined) return "";
-		const { hostname } = new URL(this.url);
-		let image = url;
-		// check if image url use double protocol
-		if (url?.startsWith("//")) {
-			//   check if url can access via https or http
-			const testUrlHttps = `https:${url}`;
-			const testUrlHttp = `http:${url}`;
-			if (await checkUrlAccessibility(testUrlHttps)) {
-				image = testUrlHttps;
-			} else if (await checkUrlAccessibility(testUrlHttp)) {
-				image = testUrlHttp;
-			}
-		} else if (url?.startsWith("/") && hostname) {
-			//   check if image url is relative path
-			const testUrlHttps = `https://${hostname}${url}`;
-			const testUrlHttp = `http://${hostname}${url}`;
-			const resUrlHttps = await checkUrlAccessibility(testUrlHttps);
-			const resUrlHttp = await checkUrlAccessibility(testUrlHttp);
-			//   check if url can access via https or http
-			if (resUrlHttps) {
-				image = testUrlHttps;
-			} else if (resUrlHttp) {
-				image = testUrlHttp;
+	private getType(): string | undefined {
+		return (
+			this.getMeta("og:type") ??
+			LinkMetadataParser.toText(this.getJsonLd("@type"))
+		);
+	}
+
+	/**
+	 * Gets the content of the first non-empty meta tag with one of the given keys.
+	 * Both `property` and `name` attributes are checked, case-insensitively.
+	 * @param keys - The keys in priority order
+	 * @returns The content or undefined if none of the tags exist
+	 */
+	private getMeta(...keys: string[]): string | undefined {
+		for (const key of keys) {
+			const content = this.htmlDoc
+				.querySelector(`meta[property='${key}' i], meta[name='${key}' i]`)
+				?.getAttr("content")
+				?.trim();
+			if (content) return content;
+		}
+	}
+
+	/**
+	 * Gets a property from the page's JSON-LD data.
+	 * Nodes describing the page content (articles, videos, ...) are searched
+	 * before nodes describing the site or organization.
+	 * @param key - The property name
+	 * @returns The first value found or undefined
+	 */
+	private getJsonLd(key: string): unknown {
+		if (!this.jsonLdNodes) {
+			const nodes: Record<string, unknown>[] = [];
+			const collect = (value: unknown) => {
+				if (Array.isArray(value)) {
+					value.forEach(collect);
+				} else if (value && typeof value === "object") {
+					const node = value as Record<string, unknown>;
+					if (node["@graph"]) collect(node["@graph"]);
+					nodes.push(node);
+				}
+			};
+			this.htmlDoc
+				.querySelectorAll("script[type='application/ld+json']")
+				.forEach((script) => {
+					try {
+						collect(JSON.parse(script.textContent ?? ""));
+					} catch {
+						// ignore malformed JSON-LD
+					}
+				});
+
+			const isSiteNode = (node: Record<string, unknown>) =>
+				[node["@type"]]
+					.flat()
+					.some((type) => typeof type === "string" && siteTypes.has(type));
+			this.jsonLdNodes = [
+				...nodes.filter((node) => !isSiteNode(node)),
+				...nodes.filter(isSiteNode),
+			];
+		}
+
+		return this.jsonLdNodes.find((node) => node[key] !== undefined)?.[key];
+	}
+
+	/**
+	 * Converts a JSON-LD value to display text.
+	 * Objects resolve to their `name`, arrays to their first entry.
+	 * @param value - The JSON-LD value
+	 * @returns The text or undefined if the value has none
+	 */
+	private static toText(value: unknown): string | undefined {
+		if (typeof value === "string") return value.trim() || undefined;
+		if (typeof value === "number") return String(value);
+		if (Array.isArray(value)) return LinkMetadataParser.toText(value[0]);
+		if (value && typeof value === "object") {
+			return LinkMetadataParser.toText((value as { name?: unknown }).name);
+		}
+	}
+
+	/**
+	 * Extracts the favicon URL.
+	 * Icons declared with `icon`, `shortcut icon` and `apple-touch-icon` links
+	 * are compared by size, and the icons of the web app manifest are only
+	 * fetched when none of them is large enough.
+	 * @returns The best icon URL, or `/favicon.ico` of the site if none is declared
+	 */
+	private async getFavicon(): Promise<string> {
+		const icons: IconCandidate[] = [];
+		for (const link of Array.from(
+			this.htmlDoc.querySelectorAll<HTMLLinkElement>("link[rel][href]"),
+		)) {
+			const rel = (link.getAttr("rel") ?? "").toLowerCase().split(/\s+/);
+			if (
+				!rel.includes("icon") &&
+				!rel.some((r) => r.startsWith("apple-touch-icon"))
+			) {
+				continue;
 			}
+			const url = this.resolveUrl(link.getAttr("href"));
+			if (!url) continue;
+			// apple touch icons are 180px unless stated otherwise
+			const fallbackSize = rel.includes("icon") ? defaultIconSize : 180;
+			icons.push({
+				url,
+				size: LinkMetadataParser.getIconSize(
+					link.getAttr("sizes"),
+					link.getAttr("type"),
+					url,
+					fallbackSize,
+				),
+			});
 		}
 
-		/**
-		 * Checks if a URL is accessible by attempting to load it as an image.
-		 * @param url - The URL to check
-		 * @returns True if the image loads successfully
-		 */
-		async function checkUrlAccessibility(url: string): Promise<boolean> {
-			return new Promise((resolve) => {
-				const img = new Image();
-				img.onload = () => resolve(true);
-				img.onerror = () => resolve(false);
-				img.src = url;
+		if (!icons.some((icon) => icon.size >= preferredIconSize)) {
+			icons.push(...(await this.getManifestIcons()));
+		}
+		return (
+			LinkMetadataParser.pickIcon(icons)?.url ??
+			`${new URL(this.url).origin}/favicon.ico`
+		);
+	}
+
+	/**
+	 * Fetches the icons of the web app manifest linked from the page.
+	 * Icons meant only as maskable are skipped, since they are padded.
+	 * @returns The icons, or an empty list if there is no readable manifest
+	 */
+	private async getManifestIcons(): Promise<IconCandidate[]> {
+		const manifestUrl = this.resolveUrl(
+			this.htmlDoc.querySelector("link[rel~='manifest' i]")?.getAttr("href"),
+		);
+		if (!manifestUrl || !this.canFetch(manifestUrl)) return [];
+
+		let icons: unknown;
+		try {
+			const res = await requestUrl({ url: manifestUrl, throw: false });
+			if (res.status !== 200) return [];
+			icons = (JSON.parse(res.text) as { icons?: unknown }).icons;
+		} catch (e) {
+			console.log(e);
+			return [];
+		}
+		if (!Array.isArray(icons)) return [];
+
+		const candidates: IconCandidate[] = [];
+		for (const icon of icons as Record<string, unknown>[]) {
+			if (!icon || typeof icon.src !== "string") continue;
+			const purpose = typeof icon.purpose === "string" ? icon.purpose : "any";
+			if (!purpose.split(/\s+/).includes("any")) continue;
+
+			const url = LinkMetadataParser.toHttpUrl(icon.src, manifestUrl);
+			if (!url) continue;
+			candidates.push({
+				url,
+				size: LinkMetadataParser.getIconSize(
+					typeof icon.sizes === "string" ? icon.sizes : undefined,
+					typeof icon.type === "string" ? icon.type : undefined,
+					url,
+					defaultIconSize,
+				),
 			});
 		}
+		return candidates;
+	}
 
-		return image;
+	/**
+	 * Gets the size of an icon from its `sizes` attribute.
+	 * SVG icons and icons sized `any` scale to every size.
+	 * @param sizes - The sizes, e.g. `16x16 32x32`
+	 * @param type - The MIME type of the icon
+	 * @param url - The URL of the icon
+	 * @param fallback - The size assumed when none is given
+	 * @returns The largest size in pixels
+	 */
+	private static getIconSize(
+		sizes: string | null | undefined,
+		type: string | null | undefined,
+		url: string,
+		fallback: number,
+	): number {
+		if (
+			sizes?.toLowerCase().split(/\s+/).includes("any") ||
+			type?.toLowerCase() === "image/svg+xml" ||
+			/\.svg$/i.test(new URL(url).pathname)
+		) {
+			return Number.POSITIVE_INFINITY;
+		}
+		let size = 0;
+		for (const match of sizes?.matchAll(/(\d+)x(\d+)/gi) ?? []) {
+			size = Math.max(size, Number(match[1]), Number(match[2]));
+		}
+		return size || fallback;
+	}
+
+	/**
+	 * Picks the icon that looks best on a card: the smallest one that is at
+	 * least the preferred size, or else the largest one.
+	 * Icons of the same size keep their order.
+	 * @param icons - The icons in document order
+	 * @returns The chosen icon or undefined if there are none
+	 */
+	private static pickIcon(icons: IconCandidate[]): IconCandidate | undefined {
+		const large = icons.filter((icon) => icon.size >= preferredIconSize);
+		if (large.length > 0) {
+			return large.reduce((best, icon) =>
+				icon.size < best.size ? icon : best,
+			);
+		}
+		if (icons.length === 0) return;
+		return icons.reduce((best, icon) => (icon.size > best.size ? icon : best));
+	}
+
+	/**
+	 * Extracts the preview image URL from Open Graph, Twitter card or JSON-LD.
+	 * The secure URL of the Open Graph image is preferred.
+	 * @returns The resolved image URL or undefined if not found
+	 */
+	private getImage(): string | undefined {
+		for (const key of [
+			"og:image:secure_url",
+			"og:image",
+			"og:image:url",
+			"twitter:image",
+			"twitter:image:src",
+		]) {
+			const image = this.resolveUrl(this.getMeta(key));
+			if (image) return image;
+		}
+
+		const jsonLdImage = [this.getJsonLd("image")].flat()[0];
+		const jsonLdImageUrl =
+			typeof jsonLdImage === "object" && jsonLdImage
+				? LinkMetadataParser.toText((jsonLdImage as { url?: unknown }).url)
+				: LinkMetadataParser.toText(jsonLdImage);
+		return this.resolveUrl(jsonLdImageUrl);
+	}
+
+	/**
+	 * Gets the URL relative links of the document resolve against, which is
+	 * the `<base href>` of the page if it has one.
+	 * @returns The base URL
+	 */
+	private getBaseUrl(): string {
+		const base = this.htmlDoc.querySelector("base[href]")?.getAttr("href");
+		return (base && LinkMetadataParser.toHttpUrl(base, this.url)) || this.url;
+	}
+
+	/**
+	 * Resolves a URL found in the document against the document base URL.
+	 * @param url - The URL as written in the document
+	 * @returns The absolute http(s) URL or undefined if it can't be resolved
+	 */
+	private resolveUrl(url: string | null | undefined): string | undefined {
+		if (!url?.trim()) return;
+		return LinkMetadataParser.toHttpUrl(url, this.getBaseUrl());
+	}
+
+	/**
+	 * Resolves a URL against a base URL.
+	 * @param url - The absolute or relative URL
+	 * @param base - The URL to resolve against
+	 * @returns The absolute http(s) URL or undefined if it is malformed or uses another protocol
+	 */
+	private static toHttpUrl(url: string, base: string): string | undefined {
+		try {
+			const resolved = new URL(url.trim(), base);
+			if (resolved.protocol === "http:" || resolved.protocol === "https:") {
+				return resolved.toString();
+			}
+		} catch {
+			// ignore malformed urls
+		}
 	}
 }
@@ -5,22 +5,54 @@
 
 import {
 	type Editor,
+	type MarkdownFileInfo,
 	MarkdownView,
 	type Menu,
 	type MenuItem,
+	Notice,
 	Plugin,
+	type TAbstractFile,
+	type TFile,
+	TFolder,
 } from "obsidian";
+import { BulkConvertModal, FolderSuggestModal } from "src/bulk_convert_modal";
+import { BulkConverter } from "src/bulk_converter";
+import { CardIndex } from "src/card_index";
+import { CARD_LIBRARY_VIEW_TYPE, CardLibraryView } from "src/card_library_view";
+import { CardMigrator } from "src/card_migrator";
+import { CardRefresher } from "src/card_refresher";
+import { CardReverter } from "src/card_reverter";
 import { CheckIf } from "src/checkif";
+import { ClipboardLinks } from "src/clipboard_links";
 import { CodeBlockGenerator } from "src/code_block_generator";
 import { CodeBlockProcessor } from "src/code_block_processor";
+import { ConfirmModal } from "src/confirm_modal";
 import { EditorExtensions } from "src/editor_enhancements";
+import { arxivExtractor } from "src/extractors/arxiv";
+import { githubExtractor } from "src/extractors/github";
+import { npmExtractor } from "src/extractors/npm";
+import { SiteExtractorRegistry } from "src/extractors/registry";
+import { stackExchangeExtractor } from "src/extractors/stack_exchange";
+import { FetchPolicy } from "src/fetch_policy";
+import { FetchTracker } from "src/fetch_tracker";
+import { ImageLocalizer } from "src/image_localizer";
 import { i18n } from "src/lang/i18n";
+import { LINK_CHECK_VIEW_TYPE, LinkCheckView } from "src/link_check_view";
+import { LinkChecker } from "src/link_checker";
+import { LinkMetadataFetcher } from "src/link_metadata_fetcher";
+import { LinkMetadataCache } from "src/metadata_cache";
+import { CARDLINK_TEMPLATE_ID } from "src/output_templates";
+import { PASTE_AS_EMBED, PASTE_AS_URL, PasteAsModal } from "src/paste_as_modal";
+import { PendingQueue } from "src/pending_queue";
+import { PlaceholderTracker } from "src/placeholder_tracker";
 import { linkRegex } from "src/regex";
 import {
 	DEFAULT_SETTINGS,
 	type ObsidianAutoCardLinkSettings,
 	ObsidianAutoCardLinkSettingTab,
 } from "src/settings";
+import { UrlNormalizer } from "src/url_normalizer";
+import { VirtualCards } from "src/virtual_cards";
 
 /**
  * Main plugin class for Auto Card Link.
@@ -30,6 +62,47 @@ import {
 export default class ObsidianAutoCardLink extends Plugin {
 	/** Plugin settings */
 	settings?: ObsidianAutoCardLinkSettings;
+	/** Persistent cache of fetched link metadata */
+	cache: LinkMetadataCache = new LinkMetadataCache(this);
+	/** Site-specific extractors; other plugins may register their own */
+	extractors: SiteExtractorRegistry = new SiteExtractorRegistry([
+		githubExtractor,
+		arxivExtractor,
+		stackExchangeExtractor,
+		npmExtractor,
+	]);
+	/** Placeholders of pasted links, followed through edits until fetched */
+	placeholders: PlaceholderTracker = new PlaceholderTracker(this);
+	/** Decides which links may be fetched */
+	policy: FetchPolicy = new FetchPolicy(this);
+	/** Link fetches in progress, listed in the status bar */
+	fetches: FetchTracker = new FetchTracker();
+	/** Fetcher shared by every command that needs link metadata */
+	fetcher: LinkMetadataFetcher = new LinkMetadataFetcher(this);
+	/** Refreshes existing cards with newly fetched metadata */
+	refresher: CardRefresher = new CardRefresher(this);
+	/** Converts links to cards across notes and folders */
+	converter: BulkConverter = new BulkConverter(this);
+	/** Converts cards back to plain Markdown */
+	reverter: CardReverter = new CardReverter(this);
+	/** Upgrades cards written with older versions of the block format */
+	migrator: CardMigrator = new CardMigrator(this);
+	/** Replaces card URLs with canonical URLs without tracking parameters */
+	normalizer: UrlNormalizer = new UrlNormalizer(this);
+	/** Index of every card in the vault, used by the card library */
+	index: CardIndex = new CardIndex(this);
+	/** Finds broken, redirected and changed cards */
+	checker: LinkChecker = new LinkChecker(this);
+	/** Downloads card images into the vault */
+	localizer: ImageLocalizer = new ImageLocalizer(this);
+	/** Renders standalone links as cards without changing the note */
+	virtualCards: VirtualCards = new VirtualCards(this);
+	/** Links waiting to be fetched once the plugin is back online */
+	pending: PendingQueue = new PendingQueue(this);
+	/** Ids of the commands registered for output templates */
+	private templateCommandIds: string[] = [];
+	/** Whether the Alt key is held, to paste without asking how */
+	private altKey = false;
 
 	/**
 	 * Called when the plugin is loaded.
@@ -37,11 +110,59 @@ export default class ObsidianAutoCardLink extends Plugin {
 	 */
 	async onload() {
 		await this.loadSettings();
-
-		this.registerMarkdownCodeBlockProcessor("cardlink", async (source, el) => {
-			const processor = new CodeBlockProcessor(this.app);
-			await processor.run(source, el);
+		await this.cache.load();
+		await this.pending.load();
+
+		this.pending.attachStatusBar(this.addStatusBarItem());
+		this.fetches.attachStatusBar(this.addStatusBarItem());
+		this.registerInterval(
+			window.setInterval(() => this.pending.process(), 30 * 1000),
+		);
+		this.registerDomEvent(window, "online", () => this.pending.process());
+		this.registerDomEvent(window, "keydown", (evt) => {
+			this.altKey = evt.altKey;
+		});
+		this.registerDomEvent(window, "keyup", (evt) => {
+			this.altKey = evt.altKey;
 		});
+		this.registerDomEvent(window, "blur", () => {
+			this.altKey = false;
+		});
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.pending.rename(oldPath, file.path);
+				this.index.rename(file, oldPath);
+			}),
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, data) =>
+				this.index.update(file, data),
+			),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.index.remove(file)),
+		);
+
+		this.registerMarkdownCodeBlockProcessor(
+			"cardlink",
+			async (source, el, ctx) => {
+				const processor = new CodeBlockProcessor(this);
+				await processor.run(source, el, ctx);
+			},
+		);
+
+		this.registerView(
+			CARD_LIBRARY_VIEW_TYPE,
+			(leaf) => new CardLibraryView(leaf, this),
+		);
+		this.registerView(
+			LINK_CHECK_VIEW_TYPE,
+			(leaf) => new LinkCheckView(leaf, this),
+		);
+
+		this.registerEditorExtension(this.virtualCards.buildEditorExtension());
+		this.registerEditorExtension(this.placeholders.buildEditorExtension());
+		this.registerMarkdownPostProcessor(this.virtualCards.postProcess);
 
 		this.addCommand({
 			id: "auto-card-link-paste-and-enhance",
@@ -52,6 +173,16 @@ export default class ObsidianAutoCardLink extends Plugin {
 			hotkeys: [],
 		});
 
+		this.addCommand({
+			id: "auto-card-link-paste-and-enhance-local-images",
+			name: i18n.commands.pasteAndEnhanceLocalImages,
+			editorCallback: async (editor: Editor) => {
+				await this.manualPasteAndEnhanceURL(editor, true);
+			},
+		});
+
+		this.registerTemplateCommands();
+
 		this.addCommand({
 			id: "auto-card-link-enhance-selected-url",
 			name: i18n.commands.enhanceSelected,
@@ -71,13 +202,317 @@ export default class ObsidianAutoCardLink extends Plugin {
 			],
 		});
 
+		this.addCommand({
+			id: "auto-card-link-open-library",
+			name: i18n.commands.openLibrary,
+			callback: () => {
+				this.openLibrary();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-clear-cache",
+			name: i18n.commands.clearCache,
+			callback: async () => {
+				await this.cache.clear();
+				new Notice(i18n.notices.cacheCleared);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-retry-pending",
+			name: i18n.commands.retryPending,
+			checkCallback: (checking: boolean) => {
+				if (this.pending.size === 0) return false;
+
+				if (checking) return true;
+
+				this.pending.retryAll();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-drop-pending",
+			name: i18n.commands.dropPending,
+			checkCallback: (checking: boolean) => {
+				if (this.pending.size === 0) return false;
+
+				if (checking) return true;
+
+				this.pending.dropAll();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-cancel-fetches",
+			name: i18n.commands.cancelFetches,
+			checkCallback: (checking: boolean) => {
+				if (this.fetches.cancellable === 0) return false;
+
+				if (checking) return true;
+
+				this.fetches.cancelAll();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-refresh-card",
+			name: i18n.commands.refreshCard,
+			editorCheckCallback: (
+				checking: boolean,
+				editor: Editor,
+				ctx: MarkdownView | MarkdownFileInfo,
+			) => {
+				if (!navigator.onLine || !ctx.file) return false;
+
+				if (checking) return true;
+
+				this.refresher.refreshBlockAt(ctx.file, editor.getCursor().line);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-refresh-note",
+			name: i18n.commands.refreshNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!navigator.onLine || file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.refresher.refreshFile(file);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-refresh-vault",
+			name: i18n.commands.refreshVault,
+			checkCallback: (checking: boolean) => {
+				if (!navigator.onLine) return false;
+
+				if (checking) return true;
+
+				this.refresher.refreshVault();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-convert-note",
+			name: i18n.commands.convertNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!navigator.onLine || file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.convertLinksInFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-convert-folder",
+			name: i18n.commands.convertFolder,
+			checkCallback: (checking: boolean) => {
+				if (!navigator.onLine) return false;
+
+				if (checking) return true;
+
+				new FolderSuggestModal(this.app, (folder) =>
+					this.convertLinksInFiles(BulkConverter.getMarkdownFiles(folder)),
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-convert-vault",
+			name: i18n.commands.convertVault,
+			checkCallback: (checking: boolean) => {
+				if (!navigator.onLine) return false;
+
+				if (checking) return true;
+
+				this.convertLinksInFiles(this.app.vault.getMarkdownFiles());
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-localize-note",
+			name: i18n.commands.localizeNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!navigator.onLine || file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.localizer.localizeFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-localize-vault",
+			name: i18n.commands.localizeVault,
+			checkCallback: (checking: boolean) => {
+				if (!navigator.onLine) return false;
+
+				if (checking) return true;
+
+				this.localizer.localizeFiles(this.app.vault.getMarkdownFiles());
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-normalize-note",
+			name: i18n.commands.normalizeNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.normalizer.normalizeFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-normalize-vault",
+			name: i18n.commands.normalizeVault,
+			callback: () => {
+				this.normalizer.normalizeFiles(this.app.vault.getMarkdownFiles());
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-check-note",
+			name: i18n.commands.checkNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!navigator.onLine || file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.checker.checkFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-check-vault",
+			name: i18n.commands.checkVault,
+			checkCallback: (checking: boolean) => {
+				if (!navigator.onLine) return false;
+
+				if (checking) return true;
+
+				this.checker.checkFiles(this.app.vault.getMarkdownFiles());
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-show-check-results",
+			name: i18n.commands.showCheckResults,
+			callback: () => {
+				this.checker.showView();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-revert-selected",
+			name: i18n.commands.revertSelected,
+			editorCallback: (editor: Editor) => {
+				this.reverter.revertInEditor(editor);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-revert-note",
+			name: i18n.commands.revertNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.reverter.revertFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-revert-vault",
+			name: i18n.commands.revertVault,
+			callback: () => {
+				new ConfirmModal(this.app, i18n.modals.revertVault, () =>
+					this.reverter.revertFiles(this.app.vault.getMarkdownFiles()),
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-migrate-note",
+			name: i18n.commands.migrateNote,
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== "md") return false;
+
+				if (checking) return true;
+
+				this.migrator.migrateFiles([file]);
+			},
+		});
+
+		this.addCommand({
+			id: "auto-card-link-migrate-vault",
+			name: i18n.commands.migrateVault,
+			callback: () => {
+				this.migrator.migrateFiles(this.app.vault.getMarkdownFiles());
+			},
+		});
+
 		this.registerEvent(this.app.workspace.on("editor-paste", this.onPaste));
 
 		this.registerEvent(this.app.workspace.on("editor-menu", this.onEditorMenu));
 
+		this.registerEvent(this.app.workspace.on("file-menu", this.onFileMenu));
+
 		this.addSettingTab(new ObsidianAutoCardLinkSettingTab(this.app, this));
 	}
 
+	/**
+	 * Registers a paste command for the cardlink block and for each output template.
+	 * Called again whenever templates are added, renamed or removed.
+	 */
+	registerTemplateCommands(): void {
+		for (const id of this.templateCommandIds) this.removeCommand(id);
+		this.templateCommandIds = [];
+
+		const outputs = [
+			{ id: CARDLINK_TEMPLATE_ID, name: i18n.settings.templates.cardlink },
+			...(this.settings?.outputTemplates ?? []),
+		];
+		for (const output of outputs) {
+			const id = `auto-card-link-paste-as-${output.id}`;
+			this.addCommand({
+				id,
+				name: i18n.commands.pasteAs.replace("{name}", output.name),
+				editorCallback: async (editor: Editor) => {
+					await this.manualPasteAndEnhanceURL(editor, undefined, output.id);
+				},
+			});
+			this.templateCommandIds.push(id);
+		}
+	}
+
+	/**
+	 * Opens the card library in the right sidebar, or reveals it if already open.
+	 */
+	private async openLibrary(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(CARD_LIBRARY_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+			await leaf.setViewState({ type: CARD_LIBRARY_VIEW_TYPE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
 	/**
 	 * Converts selected URL(s) to card link code blocks.
 	 * Handles both plain URLs and Markdown-formatted links.
@@ -88,7 +523,7 @@ export default class ObsidianAutoCardLink extends Plugin {
 			EditorExtensions.getSelectedText(editor) || ""
 		).trim();
 
-		const codeBlockGenerator = new CodeBlockGenerator(editor);
+		const codeBlockGenerator = new CodeBlockGenerator(editor, this);
 
 		for (const line of selectedText.split(/[\n ]/)) {
 			if (CheckIf.isUrl(line)) {
@@ -102,33 +537,54 @@ export default class ObsidianAutoCardLink extends Plugin {
 
 	/**
 	 * Pastes clipboard content and converts URL to card link if applicable.
-	 * Falls back to normal paste for non-URLs or offline mode.
+	 * Falls back to normal paste for non-URLs. While offline, URLs are pasted
+	 * as placeholder cards that are completed once back online.
 	 * @param editor - The Obsidian editor instance
+	 * @param localizeImages - Whether to download the card images into the vault, defaults to the setting
+	 * @param templateId - The output template to use, defaults to the setting
 	 */
-	private async manualPasteAndEnhanceURL(editor: Editor): Promise<void> {
+	private async manualPasteAndEnhanceURL(
+		editor: Editor,
+		localizeImages?: boolean,
+		templateId?: string,
+	): Promise<void> {
 		// if no clipboardText, do nothing
 		const clipboardText = await navigator.clipboard.readText();
 		if (clipboardText == null || clipboardText === "") {
 			return;
 		}
 
-		// if offline, just paste
-		if (!navigator.onLine) {
-			editor.replaceSelection(clipboardText);
-			return;
-		}
-
 		console.log(clipboardText);
 		console.log(CheckIf.isUrl(clipboardText));
 
-		// If not URL, just paste
-		if (!CheckIf.isUrl(clipboardText) || CheckIf.isImage(clipboardText)) {
-			editor.replaceSelection(clipboardText);
+		const codeBlockGenerator = new CodeBlockGenerator(editor, this);
+
+		// If not a single URL, convert the links in the text, or just paste
+		if (!CheckIf.isUrl(clipboardText)) {
+			if (
+				!navigator.onLine ||
+				!(await codeBlockGenerator.convertLinksInText(
+					clipboardText,
+					localizeImages,
+					templateId,
+				))
+			) {
+				editor.replaceSelection(clipboardText);
+			}
 			return;
 		}
 
-		const codeBlockGenerator = new CodeBlockGenerator(editor);
-		await codeBlockGenerator.convertUrlToCodeBlock(clipboardText);
+		// if offline, paste a placeholder card to complete later
+		if (!navigator.onLine) {
+			await codeBlockGenerator.insertPlaceholder(clipboardText, templateId);
+			return;
+		}
+
+		await codeBlockGenerator.convertUrlToCodeBlock(
+			clipboardText,
+			localizeImages,
+			templateId,
+		);
 		return;
 	}
 
@@ -145,9 +601,6 @@ export default class ObsidianAutoCardLink extends Plugin {
 		// if enhanceDefaultPaste is false, do nothing
 		if (!this.settings?.enhanceDefaultPaste) return;
 
-		// if offline, do nothing
-		if (!navigator.onLine) return;
-
 		if (evt.clipboardData == null) return;
 
 		// If clipboardData includes any files, we return false to allow the default paste handler to take care of it.
@@ -156,10 +609,24 @@ export default class ObsidianAutoCardLink extends Plugin {
 		const clipboardText = evt.clipboardData.getData("text/plain");
 		if (clipboardText == null || clipboardText === "") return;
 
-		// If its not a URL, we return false to allow the default paste handler to take care of it.
-		// Similarly, image urls don't have a meaningful attribute so downloading it
-		// to fetching metadata is a waste of bandwidth.
-		if (!CheckIf.isUrl(clipboardText) || CheckIf.isImage(clipboardText)) {
+		const codeBlockGenerator = new CodeBlockGenerator(editor, this);
+
+		// If its not a single URL, convert the links in the text. Text without
+		// links is left to the default paste handler, as is everything while offline.
+		if (!CheckIf.isUrl(clipboardText)) {
+			if (!navigator.onLine) return;
+			if (
+				ClipboardLinks.find(
+					clipboardText.replace(/\r\n?/g, "\n"),
+					this.settings.pasteLinkMode,
+				).length === 0
+			) {
+				return;
+			}
+
+			evt.stopPropagation();
+			evt.preventDefault();
+			await codeBlockGenerator.convertLinksInText(clipboardText);
 			return;
 		}
 
@@ -167,11 +634,81 @@ export default class ObsidianAutoCardLink extends Plugin {
 		evt.stopPropagation();
 		evt.preventDefault();
 
-		const codeBlockGenerator = new CodeBlockGenerator(editor);
+		if (this.settings.pasteChooser) {
+			const lastChoice =
+				this.settings.pasteChoices[this.getHost(clipboardText)];
+			if (this.altKey) {
+				await this.pasteAs(
+					editor,
+					clipboardText,
+					lastChoice ?? this.settings.defaultTemplate,
+				);
+				return;
+			}
+
+			new PasteAsModal(
+				this.app,
+				clipboardText,
+				this.settings.outputTemplates,
+				lastChoice,
+				(id) => this.pasteAs(editor, clipboardText, id),
+				// the paste event was cancelled, so dismissing pastes the plain text
+				() => editor.replaceSelection(clipboardText),
+			).open();
+			return;
+		}
+
+		// if offline, paste a placeholder card to complete later
+		if (!navigator.onLine) {
+			await codeBlockGenerator.insertPlaceholder(clipboardText);
+			return;
+		}
+
 		await codeBlockGenerator.convertUrlToCodeBlock(clipboardText);
 		return;
 	};
 
+	/**
+	 * Pastes a URL the way chosen in the Paste as chooser and remembers the
+	 * choice for the domain of the URL.
+	 * @param editor - The Obsidian editor instance
+	 * @param url - The pasted URL
+	 * @param id - Output template id, or the id of a built-in choice
+	 */
+	private async pasteAs(
+		editor: Editor,
+		url: string,
+		id: string,
+	): Promise<void> {
+		if (!this.settings) return;
+
+		const host = this.getHost(url);
+		if (host && this.settings.pasteChoices[host] !== id) {
+			this.settings.pasteChoices = {
+				...this.settings.pasteChoices,
+				[host]: id,
+			};
+			await this.saveSettings();
+		}
+
+		if (id === PASTE_AS_URL) {
+			editor.replaceSelection(url);
+			return;
+		}
+		if (id === PASTE_AS_EMBED) {
+			editor.replaceSelection(`![](${url})`);
+			return;
+		}
+
+		const codeBlockGenerator = new CodeBlockGenerator(editor, this);
+		// if offline, paste a placeholder card to complete later
+		if (!navigator.onLine) {
+			await codeBlockGenerator.insertPlaceholder(url, id);
+			return;
+		}
+		await codeBlockGenerator.convertUrlToCodeBlock(url, undefined, id);
+	}
+
 	/**
 	 * Adds card link commands to the editor context menu.
 	 * @param menu - The context menu to add items to
@@ -208,6 +745,41 @@ export default class ObsidianAutoCardLink extends Plugin {
 		return;
 	};
 
+	/**
+	 * Adds the bulk convert command to the context menu of folders.
+	 * @param menu - The context menu to add items to
+	 * @param file - The file or folder the menu was opened on
+	 */
+	private onFileMenu = (menu: Menu, file: TAbstractFile) => {
+		if (!this.settings?.showInMenuItem) return;
+		if (!(file instanceof TFolder) || !navigator.onLine) return;
+
+		menu.addItem((item: MenuItem) => {
+			item
+				.setTitle(i18n.commands.convertFolder)
+				.setIcon("link")
+				.onClick(() => {
+					this.convertLinksInFiles(BulkConverter.getMarkdownFiles(file));
+				});
+		});
+	};
+
+	/**
+	 * Scans files for convertible links and lets the user review them before converting.
+	 * @param files - The files to scan
+	 */
+	private async convertLinksInFiles(files: TFile[]): Promise<void> {
+		const candidates = await this.converter.scan(files);
+		if (candidates.length === 0) {
+			new Notice(i18n.notices.noLinkFound);
+			return;
+		}
+
+		new BulkConvertModal(this.app, candidates, (selected) =>
+			this.converter.convert(selected),
+		).open();
+	}
+
 	/**
 	 * Gets the active editor instance.
 	 * @returns The editor instance or undefined if no active view
@@ -218,6 +790,19 @@ export default class ObsidianAutoCardLink extends Plugin {
 		return view.editor;
 	}
 
+	/**
+	 * Gets the hostname of a URL.
+	 * @param url - The URL
+	 * @returns The hostname or empty string if the URL can't be parsed
+	 */
+	private getHost(url: string): string {
+		try {
+			return new URL(url).hostname;
+		} catch {
+			return "";
+		}
+	}
+
 	/**
 	 * Extracts the URL from a Markdown link.
 	 * @param link - The Markdown link in `[text](url)` format
@@ -237,6 +822,7 @@ export default class ObsidianAutoCardLink extends Plugin {
 	 */
 	onunload() {
 		console.log("unloading auto-card-link");
+		this.cache.save();
 	}
 
 	/**
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Persistent cache for fetched link metadata.
+ * @module metadata_cache
+ */
+
+import { type Debouncer, debounce, normalizePath } from "obsidian";
+
+import type { LinkMetadata } from "src/interfaces";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Format version of the cache file.
+ * Bump this whenever the shape of cached metadata changes, so stale entries are discarded.
+ */
+const CACHE_VERSION = 5;
+
+/**
+ * A single cached metadata entry.
+ */
+interface CacheEntry {
+	/** The cached metadata */
+	metadata: LinkMetadata;
+	/** Unix time (ms) when the metadata was fetched */
+	fetchedAt: number;
+	/** Unix time (ms) when the entry was last read */
+	accessedAt: number;
+}
+
+/**
+ * On-disk format of the cache file.
+ */
+interface CacheFile {
+	/** Format version, see {@link CACHE_VERSION} */
+	version: number;
+	/** Cached entries keyed by normalized URL */
+	entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Statistics about the cache contents, shown in the settings tab.
+ */
+export interface CacheStats {
+	/** Number of cached entries */
+	entries: number;
+	/** Approximate size of the cache file in bytes */
+	bytes: number;
+	/** Unix time (ms) of the oldest entry, if any */
+	oldest?: number;
+	/** Number of cache hits since the plugin was loaded */
+	hits: number;
+	/** Number of cache misses since the plugin was loaded */
+	misses: number;
+}
+
+/**
+ * Stores fetched link metadata in the plugin's data directory.
+ * Entries expire after the configured TTL and the least recently used entries
+ * are evicted when the configured size cap is exceeded.
+ */
+export class LinkMetadataCache {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** Cached entries keyed by normalized URL */
+	private entries: Map<string, CacheEntry> = new Map();
+	/** Number of cache hits since the plugin was loaded */
+	private hits = 0;
+	/** Number of cache misses since the plugin was loaded */
+	private misses = 0;
+	/** Debounced writer so bursts of updates only hit the disk once */
+	private requestSave: Debouncer<[], Promise<void>>;
+
+	/**
+	 * Creates a new LinkMetadataCache.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+		this.requestSave = debounce(() => this.save(), 2000, true);
+	}
+
+	/**
+	 * Path of the cache file inside the plugin directory.
+	 */
+	private get path(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/cache.json`);
+	}
+
+	/**
+	 * Loads the cache file from disk.
+	 * A missing, unreadable or outdated file results in an empty cache.
+	 */
+	async load(): Promise<void> {
+		this.entries.clear();
+
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(await adapter.exists(this.path))) return;
+
+		try {
+			const file = JSON.parse(await adapter.read(this.path)) as CacheFile;
+			if (file.version !== CACHE_VERSION) return;
+			for (const [key, entry] of Object.entries(file.entries)) {
+				this.entries.set(key, entry);
+			}
+			this.evict();
+		} catch (error) {
+			console.log("failed to load auto-card-link cache", error);
+		}
+	}
+
+	/**
+	 * Writes the cache file to disk.
+	 */
+	async save(): Promise<void> {
+		const file: CacheFile = {
+			version: CACHE_VERSION,
+			entries: Object.fromEntries(this.entries),
+		};
+		try {
+			await this.plugin.app.vault.adapter.write(
+				this.path,
+				JSON.stringify(file),
+			);
+		} catch (error) {
+			console.log("failed to save auto-card-link cache", error);
+		}
+	}
+
+	/**
+	 * Gets the cached metadata for a URL.
+	 * @param url - The URL to look up
+	 * @returns The cached metadata or undefined if missing, expired or caching is disabled
+	 */
+	get(url: string): LinkMetadata | undefined {
+		if (!this.plugin.settings?.cacheEnabled) return;
+
+		const key = LinkMetadataCache.normalizeUrl(url);
+		const entry = this.entries.get(key);
+		if (!entry || this.isExpired(entry)) {
+			if (entry) this.entries.delete(key);
+			this.misses++;
+			return;
+		}
+
+		this.hits++;
+		entry.accessedAt = Date.now();
+		this.requestSave();
+		return { ...entry.metadata, url };
+	}
+
+	/**
+	 * Gets the last fetched metadata for a URL, ignoring expiry and usage statistics.
+	 * @param url - The URL to look up
+	 * @returns The cached metadata or undefined if the URL was never cached
+	 */
+	peek(url: string): LinkMetadata | undefined {
+		const entry = this.entries.get(LinkMetadataCache.normalizeUrl(url));
+		if (!entry) return;
+		return { ...entry.metadata, url };
+	}
+
+	/**
+	 * Stores metadata for a URL, evicting old entries if the size cap is exceeded.
+	 * @param url - The URL the metadata was fetched from
+	 * @param metadata - The metadata to store
+	 */
+	set(url: string, metadata: LinkMetadata): void {
+		if (!this.plugin.settings?.cacheEnabled) return;
+
+		const now = Date.now();
+		this.entries.set(LinkMetadataCache.normalizeUrl(url), {
+			metadata: { ...metadata, indent: 0 },
+			fetchedAt: now,
+			accessedAt: now,
+		});
+		this.evict();
+		this.requestSave();
+	}
+
+	/**
+	 * Removes every entry from the cache and deletes the cache file.
+	 */
+	async clear(): Promise<void> {
+		this.entries.clear();
+		this.hits = 0;
+		this.misses = 0;
+		this.requestSave.cancel();
+
+		const adapter = this.plugin.app.vault.adapter;
+		if (await adapter.exists(this.path)) {
+			await adapter.remove(this.path);
+		}
+	}
+
+	/**
+	 * Collects statistics about the current cache contents.
+	 * @returns The cache statistics
+	 */
+	getStats(): CacheStats {
+		let oldest: number | undefined;
+		for (const entry of this.entries.values()) {
+			if (oldest === undefined || entry.fetchedAt < oldest) {
+				oldest = entry.fetchedAt;
+			}
+		}
+
+		return {
+			entries: this.entries.size,
+			bytes: JSON.stringify(Object.fromEntries(this.entries)).length,
+			oldest,
+			hits: this.hits,
+			misses: this.misses,
+		};
+	}
+
+	/**
+	 * Checks whether an entry is older than the configured TTL.
+	 * @param entry - The entry to check
+	 * @returns True if the entry has expired
+	 */
+	private isExpired(entry: CacheEntry): boolean {
+		const ttlDays = this.plugin.settings?.cacheTtlDays ?? 0;
+		if (ttlDays <= 0) return false;
+		return Date.now() - entry.fetchedAt > ttlDays * 24 * 60 * 60 * 1000;
+	}
+
+	/**
+	 * Drops expired entries, then the least recently used ones until the size cap is met.
+	 */
+	private evict(): void {
+		for (const [key, entry] of this.entries) {
+			if (this.isExpired(entry)) this.entries.delete(key);
+		}
+
+		const maxEntries = this.plugin.settings?.cacheMaxEntries ?? 0;
+		if (maxEntries <= 0 || this.entries.size <= maxEntries) return;
+
+		const byAccess = [...this.entries].sort(
+			([, a], [, b]) => a.accessedAt - b.accessedAt,
+		);
+		for (const [key] of byAccess.slice(0, this.entries.size - maxEntries)) {
+			this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * Normalizes a URL into a cache key.
+	 * Lowercases the scheme and host, drops the fragment and default ports,
+	 * sorts query parameters and removes a trailing slash from the path.
+	 * @param url - The URL to normalize
+	 * @returns The normalized URL, or the trimmed input if it cannot be parsed
+	 */
+	static normalizeUrl(url: string): string {
+		let parsed: URL;
+		try {
+			parsed = new URL(url.startsWith("www.") ? `https://${url}` : url);
+		} catch {
+			return url.trim();
+		}
+
+		parsed.hash = "";
+		parsed.searchParams.sort();
+		if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+			parsed.pathname = parsed.pathname.slice(0, -1);
+		}
+		return parsed.toString();
+	}
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview oEmbed provider registry and client.
+ * @module oembed
+ */
+
+import { requestUrl } from "obsidian";
+
+import type { LinkMetadata } from "src/interfaces";
+import { LinkMetadataParser } from "src/link_metadata_parser";
+
+/**
+ * A site that exposes an oEmbed endpoint.
+ */
+export interface OEmbedProvider {
+	/** Stable identifier used in settings */
+	id: string;
+	/** Display name */
+	name: string;
+	/** URL patterns handled by the provider */
+	schemes: RegExp[];
+	/** The oEmbed endpoint */
+	endpoint: string;
+}
+
+/**
+ * Fields of an oEmbed response that are used for cards.
+ * @see https://oembed.com/#section2.3
+ */
+interface OEmbedResponse {
+	type?: string;
+	title?: string;
+	author_name?: string;
+	provider_name?: string;
+	thumbnail_url?: string;
+	html?: string;
+}
+
+/**
+ * Built-in oEmbed providers, checked before the page itself is fetched.
+ */
+export const OEMBED_PROVIDERS: OEmbedProvider[] = [
+	{
+		id: "youtube",
+		name: "YouTube",
+		schemes: [
+			/^https?:\/\/(?:www\.|m\.|music\.)?youtube\.com\/(?:watch|shorts\/|playlist|live\/)/i,
+			/^https?:\/\/youtu\.be\//i,
+		],
+		endpoint: "https://www.youtube.com/oembed",
+	},
+	{
+		id: "vimeo",
+		name: "Vimeo",
+		schemes: [/^https?:\/\/(?:www\.|player\.)?vimeo\.com\//i],
+		endpoint: "https://vimeo.com/api/oembed.json",
+	},
+	{
+		id: "soundcloud",
+		name: "SoundCloud",
+		schemes: [/^https?:\/\/(?:www\.|m\.)?soundcloud\.com\//i],
+		endpoint: "https://soundcloud.com/oembed",
+	},
+	{
+		id: "spotify",
+		name: "Spotify",
+		schemes: [/^https?:\/\/open\.spotify\.com\//i],
+		endpoint: "https://open.spotify.com/oembed",
+	},
+	{
+		id: "twitter",
+		name: "X (Twitter)",
+		schemes: [
+			/^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/\w+\/status\//i,
+		],
+		endpoint: "https://publish.twitter.com/oembed",
+	},
+	{
+		id: "flickr",
+		name: "Flickr",
+		schemes: [
+			/^https?:\/\/(?:www\.)?flickr\.com\/photos\//i,
+			/^https?:\/\/flic\.kr\//i,
+		],
+		endpoint: "https://www.flickr.com/services/oembed/",
+	},
+	{
+		id: "tiktok",
+		name: "TikTok",
+		schemes: [/^https?:\/\/(?:www\.)?tiktok\.com\/@[^/]+\/video\//i],
+		endpoint: "https://www.tiktok.com/oembed",
+	},
+	{
+		id: "reddit",
+		name: "Reddit",
+		schemes: [/^https?:\/\/(?:www\.|old\.)?reddit\.com\/r\/[^/]+\/comments\//i],
+		endpoint: "https://www.reddit.com/oembed",
+	},
+];
+
+/**
+ * Static client for oEmbed providers.
+ */
+export class OEmbed {
+	/**
+	 * Finds the built-in provider for a URL.
+	 * @param url - The page URL
+	 * @param disabled - Ids of providers turned off in settings
+	 * @returns The matching enabled provider, if any
+	 */
+	public static findProvider(
+		url: string,
+		disabled: string[] = [],
+	): OEmbedProvider | undefined {
+		return OEMBED_PROVIDERS.find(
+			(provider) =>
+				!disabled.includes(provider.id) &&
+				provider.schemes.some((scheme) => scheme.test(url)),
+		);
+	}
+
+	/**
+	 * Builds the request URL for a built-in provider.
+	 * @param provider - The provider
+	 * @param url - The page URL
+	 * @returns The oEmbed request URL
+	 */
+	public static getRequestUrl(provider: OEmbedProvider, url: string): string {
+		const endpointUrl = new URL(provider.endpoint);
+		endpointUrl.searchParams.set("url", url);
+		endpointUrl.searchParams.set("format", "json");
+		return endpointUrl.toString();
+	}
+
+	/**
+	 * Finds an oEmbed endpoint advertised by a page.
+	 * @param htmlDoc - The parsed page
+	 * @param url - The page URL, used to resolve relative endpoints
+	 * @returns The discovered JSON oEmbed request URL, if any
+	 */
+	public static discover(htmlDoc: Document, url: string): string | undefined {
+		const href = htmlDoc
+			.querySelector("link[type='application/json+oembed']")
+			?.getAttr("href");
+		if (!href) return;
+
+		try {
+			return new URL(href, url).toString();
+		} catch {
+			return;
+		}
+	}
+
+	/**
+	 * Checks whether a discovered endpoint belongs to a disabled built-in provider.
+	 * @param endpointUrl - The discovered oEmbed request URL
+	 * @param disabled - Ids of providers turned off in settings
+	 * @returns True if the endpoint's host belongs to a disabled provider
+	 */
+	public static isDisabledEndpoint(
+		endpointUrl: string,
+		disabled: string[],
+	): boolean {
+		const { hostname } = new URL(endpointUrl);
+		return OEMBED_PROVIDERS.some(
+			(provider) =>
+				disabled.includes(provider.id) &&
+				new URL(provider.endpoint).hostname === hostname,
+		);
+	}
+
+	/**
+	 * Requests an oEmbed endpoint and converts the response to card metadata.
+	 * @param endpointUrl - The oEmbed request URL
+	 * @returns The metadata found in the response, or undefined if the request failed
+	 */
+	public static async fetch(
+		endpointUrl: string,
+	): Promise<Partial<LinkMetadata> | undefined> {
+		try {
+			const res = await requestUrl({
+				url: endpointUrl,
+				headers: { Accept: "application/json" },
+			});
+			if (res.status !== 200) return;
+			return OEmbed.toMetadata(res.json as OEmbedResponse);
+		} catch (error) {
+			console.log(error);
+			return;
+		}
+	}
+
+	/**
+	 * Converts an oEmbed response into cleaned card metadata.
+	 * Rich responses without a title (such as posts on X) use the text of their HTML instead.
+	 * @param res - The oEmbed response
+	 * @returns The card metadata
+	 */
+	private static toMetadata(res: OEmbedResponse): Partial<LinkMetadata> {
+		let title = res.title;
+		let description: string | undefined;
+		if (!title && res.html) {
+			const text = new DOMParser()
+				.parseFromString(res.html, "text/html")
+				.querySelector("blockquote p, p")?.textContent;
+			if (text) {
+				title = res.author_name ? `${res.author_name}: ${text}` : text;
+				description = text;
+			}
+		}
+
+		return {
+			title: LinkMetadataParser.clean(title) || undefined,
+			description: LinkMetadataParser.clean(description) || undefined,
+			author: LinkMetadataParser.clean(res.author_name) || undefined,
+			siteName: LinkMetadataParser.clean(res.provider_name) || undefined,
+			image: res.thumbnail_url || undefined,
+		};
+	}
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Named output templates for pasted links.
+ * @module output_templates
+ */
+
+import { moment } from "obsidian";
+
+import type { LinkMetadata } from "src/interfaces";
+
+/**
+ * A user-defined way of writing a link into a note.
+ */
+export interface OutputTemplate {
+	/** Stable identifier, used in command ids */
+	id: string;
+	/** Display name */
+	name: string;
+	/** Template text with `{{placeholder}}` and `{{placeholder|filter}}` tags */
+	template: string;
+}
+
+/**
+ * Id of the built-in output that writes a cardlink block.
+ */
+export const CARDLINK_TEMPLATE_ID = "cardlink";
+
+/**
+ * Id of the built-in output that writes a Markdown link with the fetched title.
+ */
+export const LINK_TEMPLATE_ID = "link";
+
+/**
+ * The built-in Markdown link output, offered by the paste chooser.
+ */
+const linkTemplate: OutputTemplate = {
+	id: LINK_TEMPLATE_ID,
+	name: "Markdown link",
+	template: "[{{title|escape}}]({{url}})",
+};
+
+/**
+ * Templates available before the user adds their own.
+ */
+export const DEFAULT_OUTPUT_TEMPLATES: OutputTemplate[] = [
+	{
+		id: "markdown-link",
+		name: "Markdown link",
+		template: "[{{title|escape}}]({{url}})",
+	},
+	{
+		id: "callout",
+		name: "Callout",
+		template:
+			"> [!info] [{{title|escape}}]({{url}})\n> {{description|truncate:200}}",
+	},
+	{
+		id: "list-item",
+		name: "List item",
+		template: "- [{{title|escape}}]({{url}}) ({{site_name|default:host}})",
+	},
+];
+
+/**
+ * Names that can be used as placeholders.
+ */
+export const PLACEHOLDERS = [
+	"url",
+	"title",
+	"description",
+	"host",
+	"site_name",
+	"author",
+	"published",
+	"type",
+	"badges",
+	"favicon",
+	"image",
+	"date",
+];
+
+/**
+ * Placeholder tag: a key followed by optional `|filter` or `|filter:argument` parts.
+ */
+const tagRegex = /{{\s*(\w+)((?:\s*\|\s*\w+(?::[^|}]*)?)*)\s*}}/g;
+
+/**
+ * Static utility class for rendering output templates.
+ */
+export class OutputTemplates {
+	/**
+	 * Finds a template by id, including the built-in Markdown link output.
+	 * @param id - The template id
+	 * @param templates - The user's templates
+	 * @returns The template or undefined for the cardlink block and unknown ids
+	 */
+	public static find(
+		id: string,
+		templates: OutputTemplate[],
+	): OutputTemplate | undefined {
+		if (id === LINK_TEMPLATE_ID) return linkTemplate;
+		return templates.find((template) => template.id === id);
+	}
+
+	/**
+	 * Renders a template with link metadata.
+	 * Lines whose placeholders are all empty are removed, so optional fields
+	 * such as the description don't leave blank lines behind.
+	 * @param template - The template text
+	 * @param linkMetadata - The metadata of the link
+	 * @returns The rendered text
+	 */
+	public static render(template: string, linkMetadata: LinkMetadata): string {
+		const lines: string[] = [];
+		for (const line of template.split("\n")) {
+			let tags = 0;
+			let filled = 0;
+			const rendered = line.replace(
+				tagRegex,
+				(_, key: string, filters: string) => {
+					tags++;
+					const value = OutputTemplates.applyFilters(
+						OutputTemplates.getValue(key, linkMetadata),
+						filters,
+						linkMetadata,
+					);
+					if (value) filled++;
+					return value;
+				},
+			);
+			if (tags > 0 && filled === 0) continue;
+			lines.push(rendered);
+		}
+		return lines.join("\n");
+	}
+
+	/**
+	 * Gets the text of a placeholder.
+	 * @param key - The placeholder name
+	 * @param linkMetadata - The metadata of the link
+	 * @returns The value or an empty string if the link doesn't have it
+	 */
+	private static getValue(key: string, linkMetadata: LinkMetadata): string {
+		switch (key) {
+			case "date":
+				return moment().format("YYYY-MM-DD");
+			case "site_name":
+				return linkMetadata.siteName ?? "";
+			case "badges":
+				return linkMetadata.badges?.join(", ") ?? "";
+			case "url":
+			case "title":
+			case "description":
+			case "host":
+			case "favicon":
+			case "image":
+			case "author":
+			case "published":
+			case "type":
+				return linkMetadata[key] ?? "";
+			default:
+				return "";
+		}
+	}
+
+	/**
+	 * Applies the filters of a tag in order.
+	 * @param value - The placeholder value
+	 * @param filters - The filter part of the tag, e.g. `|truncate:80|escape`
+	 * @param linkMetadata - The metadata of the link, used by `default`
+	 * @returns The filtered value
+	 */
+	private static applyFilters(
+		value: string,
+		filters: string,
+		linkMetadata: LinkMetadata,
+	): string {
+		for (const filter of filters.split("|").slice(1)) {
+			const [name, ...rest] = filter.split(":");
+			const arg = rest.join(":").trim();
+			switch (name.trim()) {
+				case "truncate": {
+					const length = Number.parseInt(arg, 10) || 100;
+					if (value.length > length) {
+						value = `${value.slice(0, length).trimEnd()}…`;
+					}
+					break;
+				}
+				case "escape":
+					value = value.replace(/([\\`*_[\]<>|#])/g, "\\$1");
+					break;
+				case "upper":
+					value = value.toUpperCase();
+					break;
+				case "lower":
+					value = value.toLowerCase();
+					break;
+				case "default":
+					// The argument is another placeholder, or literal text if it isn't one
+					if (!value) {
+						value = PLACEHOLDERS.includes(arg)
+							? OutputTemplates.getValue(arg, linkMetadata)
+							: arg;
+					}
+					break;
+			}
+		}
+		return value;
+	}
+}
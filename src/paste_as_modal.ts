@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Suggester asking how a pasted URL should be written.
+ * @module paste_as_modal
+ */
+
+import { type App, type FuzzyMatch, FuzzySuggestModal } from "obsidian";
+
+import { i18n } from "src/lang/i18n";
+import type { OutputTemplate } from "src/output_templates";
+import { CARDLINK_TEMPLATE_ID, LINK_TEMPLATE_ID } from "src/output_templates";
+
+/**
+ * Id of the paste choice that writes the URL as it is.
+ */
+export const PASTE_AS_URL = "url";
+
+/**
+ * Id of the paste choice that writes the URL as an embed.
+ */
+export const PASTE_AS_EMBED = "embed";
+
+/**
+ * A way of writing a pasted URL.
+ */
+export interface PasteChoice {
+	/** Output template id, or one of the ids of the built-in choices */
+	id: string;
+	/** Display name */
+	name: string;
+}
+
+/**
+ * Lets the user choose between a card, a Markdown link, the bare URL, an
+ * embed or one of their templates. The last choice for the domain comes first.
+ * @extends FuzzySuggestModal
+ */
+export class PasteAsModal extends FuzzySuggestModal<PasteChoice> {
+	/** The choices in display order */
+	choices: PasteChoice[];
+	/** Id of the choice made last time for the domain, if any */
+	lastChoice?: string;
+	/** Called with the chosen id */
+	onChoose: (id: string) => void;
+	/** Called when the modal is closed without a choice */
+	onDismiss: () => void;
+	/** Whether a choice was made */
+	private chosen = false;
+
+	/**
+	 * Creates a new PasteAsModal.
+	 * @param app - The Obsidian App instance
+	 * @param url - The pasted URL, shown as the placeholder
+	 * @param templates - The user's output templates
+	 * @param lastChoice - Id of the choice made last time for the domain
+	 * @param onChoose - Called with the chosen id
+	 * @param onDismiss - Called when the modal is closed without a choice
+	 */
+	constructor(
+		app: App,
+		url: string,
+		templates: OutputTemplate[],
+		lastChoice: string | undefined,
+		onChoose: (id: string) => void,
+		onDismiss: () => void,
+	) {
+		super(app);
+		this.lastChoice = lastChoice;
+		this.onChoose = onChoose;
+		this.onDismiss = onDismiss;
+		this.setPlaceholder(i18n.modals.pasteAs.placeholder.replace("{url}", url));
+
+		const choices: PasteChoice[] = [
+			{ id: CARDLINK_TEMPLATE_ID, name: i18n.modals.pasteAs.card },
+			{ id: LINK_TEMPLATE_ID, name: i18n.modals.pasteAs.link },
+			{ id: PASTE_AS_URL, name: i18n.modals.pasteAs.url },
+			{ id: PASTE_AS_EMBED, name: i18n.modals.pasteAs.embed },
+			...templates.map(({ id, name }) => ({ id, name })),
+		];
+		const last = choices.find((choice) => choice.id === lastChoice);
+		this.choices = last
+			? [last, ...choices.filter((choice) => choice !== last)]
+			: choices;
+	}
+
+	/**
+	 * Lists the choices.
+	 * @returns The choices, the last one used for the domain first
+	 */
+	getItems(): PasteChoice[] {
+		return this.choices;
+	}
+
+	/**
+	 * Gets the display text of a choice.
+	 * @param choice - The choice
+	 * @returns The choice name
+	 */
+	getItemText(choice: PasteChoice): string {
+		return choice.name;
+	}
+
+	/**
+	 * Renders a choice, marking the one used last time for the domain.
+	 * @param match - The matched choice
+	 * @param el - The element to render into
+	 */
+	renderSuggestion(match: FuzzyMatch<PasteChoice>, el: HTMLElement): void {
+		super.renderSuggestion(match, el);
+		if (match.item.id === this.lastChoice) {
+			el.createSpan({
+				cls: "auto-card-link-paste-as-last",
+				text: i18n.modals.pasteAs.last,
+			});
+		}
+	}
+
+	/**
+	 * Called when a choice is made.
+	 * @param choice - The chosen choice
+	 */
+	onChooseItem(choice: PasteChoice): void {
+		this.chosen = true;
+		this.onChoose(choice.id);
+	}
+
+	/**
+	 * Called when the modal closes. The modal closes before the choice is
+	 * reported, so whether one was made is checked afterwards.
+	 */
+	onClose(): void {
+		super.onClose();
+		window.setTimeout(() => {
+			if (!this.chosen) this.onDismiss();
+		});
+	}
+}
@@ -0,0 +1,365 @@
+/**
+ * @fileoverview Persistent queue of links whose metadata couldn't be fetched yet.
+ * @module pending_queue
+ */
+
+import { moment, Notice, normalizePath, setTooltip, TFile } from "obsidian";
+
+import { CardFields } from "src/card_fields";
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type { FetchFailure } from "src/link_metadata_fetcher";
+import type ObsidianAutoCardLink from "src/main";
+import { OutputTemplates } from "src/output_templates";
+
+/**
+ * Format version of the queue file.
+ */
+const QUEUE_VERSION = 1;
+
+/**
+ * Delay before the first retry of a failed fetch, doubled after every failure.
+ */
+const RETRY_BASE_MS = 30 * 1000;
+
+/**
+ * Longest delay between two retries.
+ */
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Number of failed fetches after which a link is given up.
+ */
+const MAX_ATTEMPTS = 10;
+
+/**
+ * A link waiting to be fetched.
+ */
+interface PendingEntry {
+	/** The URL of the link */
+	url: string;
+	/** Path of the note containing the placeholder card */
+	path: string;
+	/** The output template the link was pasted with */
+	templateId: string;
+	/** Number of failed fetches */
+	attempts: number;
+	/** Unix time (ms) of the next fetch */
+	nextAttempt: number;
+}
+
+/**
+ * On-disk format of the queue file.
+ */
+interface PendingFile {
+	/** Format version, see {@link QUEUE_VERSION} */
+	version: number;
+	/** The queued links */
+	entries: PendingEntry[];
+}
+
+/**
+ * Keeps links that were pasted offline or failed to fetch, and completes their
+ * placeholder cards once the metadata can be fetched.
+ * Failed fetches are retried with exponential backoff, until the link is
+ * given up and its placeholder becomes a broken card. Links answered with a
+ * bot check or login page are given up right away.
+ */
+export class PendingQueue {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** The queued links */
+	private entries: PendingEntry[] = [];
+	/** Whether the queue is being processed */
+	private processing = false;
+	/** Status bar item showing the number of queued links */
+	private statusBarEl?: HTMLElement;
+
+	/**
+	 * Creates a new PendingQueue.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Path of the queue file inside the plugin directory.
+	 */
+	private get path(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/pending.json`);
+	}
+
+	/**
+	 * Number of queued links.
+	 */
+	get size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * Loads the queue file from disk.
+	 */
+	async load(): Promise<void> {
+		this.entries = [];
+
+		const adapter = this.plugin.app.vault.adapter;
+		if (await adapter.exists(this.path)) {
+			try {
+				const file = JSON.parse(await adapter.read(this.path)) as PendingFile;
+				if (file.version === QUEUE_VERSION) this.entries = file.entries;
+			} catch (error) {
+				console.log("failed to load auto-card-link pending queue", error);
+			}
+		}
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Writes the queue file to disk.
+	 */
+	private async save(): Promise<void> {
+		const file: PendingFile = { version: QUEUE_VERSION, entries: this.entries };
+		try {
+			await this.plugin.app.vault.adapter.write(
+				this.path,
+				JSON.stringify(file),
+			);
+		} catch (error) {
+			console.log("failed to save auto-card-link pending queue", error);
+		}
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Creates the metadata of a placeholder card.
+	 * @param url - The URL of the link
+	 * @returns Metadata with the URL as title and the hostname
+	 */
+	static placeholder(url: string): LinkMetadata {
+		let host: string | undefined;
+		try {
+			host = new URL(url).hostname;
+		} catch {
+			host = undefined;
+		}
+		return {
+			url,
+			title: url,
+			host,
+			status: "pending",
+			added: moment().format("YYYY-MM-DD"),
+			indent: 0,
+		};
+	}
+
+	/**
+	 * Queues a link whose placeholder card was written to a note.
+	 * @param url - The URL of the link
+	 * @param path - Path of the note containing the placeholder
+	 * @param templateId - The output template to write once fetched
+	 * @param fetchFailed - Whether a fetch already failed, which delays the first retry
+	 */
+	async add(
+		url: string,
+		path: string,
+		templateId: string,
+		fetchFailed: boolean,
+	): Promise<void> {
+		this.entries.push({
+			url,
+			path,
+			templateId,
+			attempts: fetchFailed ? 1 : 0,
+			nextAttempt: fetchFailed ? Date.now() + RETRY_BASE_MS : 0,
+		});
+		await this.save();
+	}
+
+	/**
+	 * Fetches every queued link that is due, completing its placeholder cards.
+	 * Links the fetch policy denies wait without counting as failed.
+	 * Does nothing while offline.
+	 */
+	async process(): Promise<void> {
+		if (this.processing || !navigator.onLine || this.size === 0) return;
+		this.processing = true;
+
+		try {
+			const now = Date.now();
+			for (const entry of [...this.entries]) {
+				if (entry.nextAttempt > now) continue;
+				// notes that turned fetching off keep their placeholders
+				const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+				if (file instanceof TFile && !this.plugin.policy.allowsFile(file)) {
+					continue;
+				}
+				if (!this.plugin.policy.allowsUrl(entry.url)) continue;
+
+				let failure: FetchFailure | undefined;
+				let linkMetadata = await this.plugin.fetcher.fetch(entry.url, {
+					onFailure: (reason) => {
+						failure = reason;
+					},
+				});
+				if (!linkMetadata) {
+					entry.attempts++;
+					// a bot check or login page doesn't go away by retrying
+					if (failure === "interstitial" || entry.attempts >= MAX_ATTEMPTS) {
+						await this.giveUp(entry);
+						continue;
+					}
+					entry.nextAttempt =
+						Date.now() +
+						Math.min(RETRY_BASE_MS * 2 ** (entry.attempts - 1), RETRY_MAX_MS);
+					continue;
+				}
+
+				linkMetadata = this.plugin.normalizer.apply(linkMetadata);
+				if (this.plugin.settings?.localizeImages) {
+					linkMetadata = await this.plugin.localizer.localize(linkMetadata);
+				}
+				await this.complete(entry, CardFields.withHashes(linkMetadata));
+				this.entries = this.entries.filter((e) => e !== entry);
+			}
+		} finally {
+			this.processing = false;
+			await this.save();
+		}
+	}
+
+	/**
+	 * Drops a link that can't be fetched, turning its placeholders into broken cards.
+	 * @param entry - The queued link
+	 */
+	private async giveUp(entry: PendingEntry): Promise<void> {
+		await this.complete(entry, {
+			...PendingQueue.placeholder(entry.url),
+			status: "broken",
+		});
+		this.entries = this.entries.filter((e) => e !== entry);
+		new Notice(i18n.notices.pendingGaveUp.replace("{url}", entry.url));
+	}
+
+	/**
+	 * Retries every queued link now, ignoring the backoff.
+	 */
+	async retryAll(): Promise<void> {
+		if (!navigator.onLine) {
+			new Notice(i18n.notices.pendingOffline);
+			return;
+		}
+
+		for (const entry of this.entries) entry.nextAttempt = 0;
+		await this.process();
+		new Notice(
+			i18n.notices.pendingRetried.replace("{count}", String(this.size)),
+		);
+	}
+
+	/**
+	 * Empties the queue. Placeholder cards stay in the notes and can be refreshed later.
+	 */
+	async dropAll(): Promise<void> {
+		const count = this.size;
+		this.entries = [];
+		await this.save();
+		new Notice(i18n.notices.pendingDropped.replace("{count}", String(count)));
+	}
+
+	/**
+	 * Follows notes that were renamed or moved.
+	 * @param oldPath - The previous path of the note
+	 * @param newPath - The new path of the note
+	 */
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		if (!this.entries.some((entry) => entry.path === oldPath)) return;
+
+		for (const entry of this.entries) {
+			if (entry.path === oldPath) entry.path = newPath;
+		}
+		await this.save();
+	}
+
+	/**
+	 * Uses a status bar item to show the number of queued links.
+	 * Clicking it retries them.
+	 * @param el - The status bar item
+	 */
+	attachStatusBar(el: HTMLElement): void {
+		this.statusBarEl = el;
+		el.addClass("mod-clickable");
+		setTooltip(el, i18n.statusBar.pendingTooltip, { placement: "top" });
+		el.addEventListener("click", () => this.retryAll());
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Updates the status bar item, hiding it when the queue is empty.
+	 */
+	private updateStatusBar(): void {
+		if (!this.statusBarEl) return;
+
+		this.statusBarEl.setText(
+			i18n.statusBar.pending.replace("{count}", String(this.size)),
+		);
+		this.statusBarEl.toggle(this.size > 0);
+	}
+
+	/**
+	 * Replaces the placeholder cards of a link with the fetched card or template output.
+	 * @param entry - The queued link
+	 * @param linkMetadata - The fetched metadata
+	 */
+	private async complete(
+		entry: PendingEntry,
+		linkMetadata: LinkMetadata,
+	): Promise<void> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) return;
+
+		const template = OutputTemplates.find(
+			entry.templateId,
+			this.plugin.settings?.outputTemplates ?? [],
+		);
+
+		await this.plugin.app.vault.process(file, (data) => {
+			// Rewrite from the bottom so earlier line numbers stay valid
+			for (const block of CardLinkBlocks.find(data).reverse()) {
+				let placeholder: LinkMetadata;
+				try {
+					placeholder = CardLinkSchema.parse(block.source);
+				} catch {
+					continue;
+				}
+				if (placeholder.status !== "pending") continue;
+				if (placeholder.url !== entry.url) continue;
+
+				if (template) {
+					const lines = data.split("\n");
+					lines.splice(
+						block.startLine,
+						block.endLine - block.startLine + 1,
+						...OutputTemplates.render(template.template, linkMetadata)
+							.split("\n")
+							.map((line) => `${block.prefix}${line}`),
+					);
+					data = lines.join("\n");
+				} else {
+					data = CardLinkBlocks.replaceBody(
+						data,
+						block,
+						CardLinkSchema.serialize({
+							...linkMetadata,
+							layout: placeholder.layout,
+							added: placeholder.added,
+						}),
+					);
+				}
+			}
+			return data;
+		});
+	}
+}
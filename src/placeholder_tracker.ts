@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Tracking of the placeholders shown while pasted links are fetched.
+ * @module placeholder_tracker
+ */
+
+import {
+	Annotation,
+	type Extension,
+	StateEffect,
+	StateField,
+	Transaction,
+} from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import { type Editor, editorInfoField, type TFile } from "obsidian";
+
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * A range of the document.
+ */
+interface TrackedRange {
+	/** Offset of the first character */
+	from: number;
+	/** Offset after the last character */
+	to: number;
+}
+
+/**
+ * Text pasted with placeholders for the links being fetched.
+ */
+export interface TrackedPaste {
+	/** Unique id of the paste */
+	id: string;
+	/** The note the text was pasted into */
+	file?: TFile;
+	/** The editor the text was pasted into */
+	view: EditorView;
+	/** The text the paste replaced */
+	original: string;
+	/** Placeholders that haven't been replaced yet */
+	remaining: Set<string>;
+}
+
+/**
+ * Effect that starts tracking a range under an id.
+ */
+const trackEffect = StateEffect.define<{ id: string; range: TrackedRange }>();
+
+/**
+ * Effect that stops tracking a range.
+ */
+const untrackEffect = StateEffect.define<string>();
+
+/**
+ * Marks the transactions dispatched by the tracker.
+ */
+const ownChange = Annotation.define<boolean>();
+
+/**
+ * Ranges of pastes and placeholders keyed by id, following edits.
+ * A range deleted by the user is kept as null so it isn't written back.
+ */
+const trackedRanges = StateField.define<Map<string, TrackedRange | null>>({
+	create: () => new Map(),
+	update: (ranges, tr) => {
+		let next = ranges;
+		if (tr.docChanged) {
+			// ranges grow with our own changes inside them, while text typed
+			// by the user at the edges of a range stays outside
+			const own: TrackedRange[] = [];
+			if (tr.annotation(ownChange)) {
+				tr.changes.iterChangedRanges((from, to) => own.push({ from, to }));
+			}
+			next = new Map();
+			for (const [id, range] of ranges) {
+				if (!range) {
+					next.set(id, null);
+					continue;
+				}
+				const inclusive = own.some(
+					(change) => range.from <= change.from && change.to <= range.to,
+				);
+				const from = tr.changes.mapPos(range.from, inclusive ? -1 : 1);
+				const to = tr.changes.mapPos(range.to, inclusive ? 1 : -1);
+				next.set(id, from < to ? { from, to } : null);
+			}
+		}
+
+		for (const effect of tr.effects) {
+			if (effect.is(trackEffect)) {
+				if (next === ranges) next = new Map(ranges);
+				next.set(effect.value.id, effect.value.range);
+			} else if (effect.is(untrackEffect)) {
+				if (next === ranges) next = new Map(ranges);
+				next.delete(effect.value);
+			}
+		}
+		return next;
+	},
+});
+
+/**
+ * Keeps track of where placeholders are while their links are fetched, so
+ * the results land in the right place even after edits around them.
+ * Placeholders are left out of the undo history; once every link of a paste
+ * is done, the paste is recorded as a single undo step from the text it
+ * replaced to the final text. If the note is no longer open in the editor,
+ * results are written to the file instead.
+ */
+export class PlaceholderTracker {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new PlaceholderTracker.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Builds the editor extension that maps tracked ranges through edits.
+	 * @returns The CodeMirror extension
+	 */
+	buildEditorExtension(): Extension {
+		return trackedRanges;
+	}
+
+	/**
+	 * Creates an id that can't collide with other placeholders.
+	 * @returns A random UUID
+	 */
+	static createId(): string {
+		return crypto.randomUUID();
+	}
+
+	/**
+	 * Replaces the selection with text containing placeholders and starts
+	 * tracking them. The change isn't added to the undo history.
+	 * @param editor - The editor to paste into
+	 * @param text - The text to paste
+	 * @param placeholders - The placeholders contained in the text, each unique
+	 * @returns The tracked paste
+	 */
+	insert(editor: Editor, text: string, placeholders: string[]): TrackedPaste {
+		const view = PlaceholderTracker.getView(editor);
+		const { from, to } = view.state.selection.main;
+		const paste: TrackedPaste = {
+			id: PlaceholderTracker.createId(),
+			file: PlaceholderTracker.getFile(editor),
+			view,
+			original: view.state.sliceDoc(from, to),
+			remaining: new Set(placeholders),
+		};
+
+		view.dispatch({
+			changes: { from, to, insert: text },
+			selection: { anchor: from + text.length },
+			effects: [
+				trackEffect.of({
+					id: paste.id,
+					range: { from, to: from + text.length },
+				}),
+				...placeholders.map((placeholder) => {
+					const start = from + text.indexOf(placeholder);
+					return trackEffect.of({
+						id: placeholder,
+						range: { from: start, to: start + placeholder.length },
+					});
+				}),
+			],
+			annotations: [Transaction.addToHistory.of(false), ownChange.of(true)],
+		});
+		return paste;
+	}
+
+	/**
+	 * Replaces a placeholder of a paste, in the editor if the note is still
+	 * open there, otherwise in the file.
+	 * @param paste - The paste the placeholder belongs to
+	 * @param placeholder - The placeholder to replace
+	 * @param text - The text to write instead
+	 * @returns False if the placeholder was deleted or edited in the meantime
+	 */
+	async replace(
+		paste: TrackedPaste,
+		placeholder: string,
+		text: string,
+	): Promise<boolean> {
+		if (!paste.remaining.delete(placeholder)) return false;
+
+		const { view } = paste;
+		const ranges = view.dom.isConnected
+			? view.state.field(trackedRanges, false)
+			: undefined;
+		if (!ranges?.has(placeholder)) {
+			return await this.replaceInFile(paste, placeholder, text);
+		}
+
+		const range = ranges.get(placeholder);
+		if (!range || view.state.sliceDoc(range.from, range.to) !== placeholder) {
+			console.log(
+				`Placeholder "${placeholder}" was removed from the editor, bailing out`,
+			);
+			view.dispatch({ effects: untrackEffect.of(placeholder) });
+			this.finish(paste);
+			return false;
+		}
+
+		view.dispatch({
+			changes: { ...range, insert: text },
+			effects: untrackEffect.of(placeholder),
+			annotations: [Transaction.addToHistory.of(false), ownChange.of(true)],
+		});
+		this.finish(paste);
+		return true;
+	}
+
+	/**
+	 * Records a paste whose placeholders are all replaced as one undo step.
+	 * The final text is swapped back for the text the paste replaced outside
+	 * of the history, then written again as a single change.
+	 * @param paste - The paste
+	 */
+	private finish(paste: TrackedPaste): void {
+		if (paste.remaining.size > 0) return;
+
+		const { view } = paste;
+		const range = view.state.field(trackedRanges, false)?.get(paste.id);
+		if (!range) {
+			if (range === null)
+				view.dispatch({ effects: untrackEffect.of(paste.id) });
+			return;
+		}
+
+		const text = view.state.sliceDoc(range.from, range.to);
+		const selection = view.state.selection;
+		view.dispatch({
+			changes: { ...range, insert: paste.original },
+			annotations: [Transaction.addToHistory.of(false), ownChange.of(true)],
+		});
+		view.dispatch({
+			changes: {
+				from: range.from,
+				to: range.from + paste.original.length,
+				insert: text,
+			},
+			selection,
+			effects: untrackEffect.of(paste.id),
+			annotations: [
+				Transaction.userEvent.of("input.paste"),
+				ownChange.of(true),
+			],
+		});
+	}
+
+	/**
+	 * Replaces a placeholder in the file of a paste that is no longer open in its editor.
+	 * @param paste - The paste the placeholder belongs to
+	 * @param placeholder - The placeholder to replace
+	 * @param text - The text to write instead
+	 * @returns False if the placeholder isn't in the file
+	 */
+	private async replaceInFile(
+		paste: TrackedPaste,
+		placeholder: string,
+		text: string,
+	): Promise<boolean> {
+		const { file } = paste;
+		if (!file || !this.plugin.app.vault.getFileByPath(file.path)) {
+			console.log(`Unable to find the note of "${placeholder}", bailing out`);
+			return false;
+		}
+
+		let found = false;
+		await this.plugin.app.vault.process(file, (data) => {
+			found = data.includes(placeholder);
+			return found ? data.replace(placeholder, () => text) : data;
+		});
+		if (!found) {
+			console.log(
+				`Unable to find text "${placeholder}" in ${file.path}, bailing out`,
+			);
+		}
+		return found;
+	}
+
+	/**
+	 * Gets the note open in an editor, which isn't necessarily the active one,
+	 * such as the editor of a hover popover.
+	 * @param editor - The Obsidian editor
+	 * @returns The note, or undefined if the editor doesn't show a file
+	 */
+	static getFile(editor: Editor): TFile | undefined {
+		return (
+			PlaceholderTracker.getView(editor).state.field(editorInfoField, false)
+				?.file ?? undefined
+		);
+	}
+
+	/**
+	 * Gets the CodeMirror view of an editor.
+	 * @param editor - The Obsidian editor
+	 * @returns The CodeMirror view
+	 */
+	private static getView(editor: Editor): EditorView {
+		return (editor as Editor & { cm: EditorView }).cm;
+	}
+}
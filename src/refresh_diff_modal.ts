@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Modal showing what refreshing cards would change before writing it.
+ * @module refresh_diff_modal
+ */
+
+import { type App, ButtonComponent, Modal } from "obsidian";
+
+import { CARD_FIELDS, CardFields } from "src/card_fields";
+import type { CardChange } from "src/card_refresher";
+import { i18n } from "src/lang/i18n";
+
+/**
+ * Lists the field changes of refreshed cards and asks for confirmation.
+ * @extends Modal
+ */
+export class RefreshDiffModal extends Modal {
+	/** The changes to review */
+	changes: CardChange[];
+	/** Called when the user confirms the changes */
+	onConfirm: () => void | Promise<void>;
+
+	/**
+	 * Creates a new RefreshDiffModal.
+	 * @param app - The Obsidian App instance
+	 * @param changes - The changes to review
+	 * @param onConfirm - Called when the user confirms the changes
+	 */
+	constructor(
+		app: App,
+		changes: CardChange[],
+		onConfirm: () => void | Promise<void>,
+	) {
+		super(app);
+		this.changes = changes;
+		this.onConfirm = onConfirm;
+	}
+
+	/**
+	 * Renders the diff of every changed card.
+	 */
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(
+			i18n.modals.refresh.title.replace("{count}", String(this.changes.length)),
+		);
+
+		const listEl = contentEl.createDiv("auto-card-link-diff-list");
+		for (const change of this.changes) {
+			const cardEl = listEl.createDiv("auto-card-link-diff-card");
+			cardEl.createDiv({
+				cls: "auto-card-link-diff-source",
+				text: `${change.file.path}:${change.block.startLine + 1}`,
+			});
+			cardEl.createDiv({
+				cls: "auto-card-link-diff-url",
+				text: change.before.url,
+			});
+
+			const tableEl = cardEl.createEl("table");
+			for (const field of CARD_FIELDS) {
+				const before = CardFields.text(change.before, field);
+				const after = CardFields.text(change.after, field);
+				if (before === after) continue;
+
+				const rowEl = tableEl.createEl("tr");
+				rowEl.createEl("th", { text: field });
+				rowEl
+					.createEl("td", { cls: "auto-card-link-diff-before" })
+					.createEl("del", { text: before });
+				rowEl
+					.createEl("td", { cls: "auto-card-link-diff-after" })
+					.createEl("ins", { text: after });
+			}
+		}
+
+		const buttonsEl = contentEl.createDiv("modal-button-container");
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.refresh.apply)
+			.setCta()
+			.onClick(async () => {
+				this.close();
+				await this.onConfirm();
+			});
+		new ButtonComponent(buttonsEl)
+			.setButtonText(i18n.modals.cancel)
+			.onClick(() => this.close());
+	}
+
+	/**
+	 * Cleans up the modal content.
+	 */
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Per-domain request settings for fetching pages.
+ * @module request_profiles
+ */
+
+/**
+ * Request settings applied when fetching pages of a domain.
+ */
+export interface RequestProfile {
+	/** Stable identifier of the profile */
+	id: string;
+	/** Domain the profile applies to, including its subdomains */
+	domain: string;
+	/** User-Agent header, empty to keep the default */
+	userAgent: string;
+	/** Accept-Language header, empty to keep the default */
+	acceptLanguage: string;
+	/** Cookie header, e.g. `session=abc; consent=yes` */
+	cookie: string;
+	/** Extra headers, one `Name: value` pair per line */
+	headers: string;
+}
+
+/**
+ * Static utility class for choosing and applying request profiles.
+ */
+export class RequestProfiles {
+	/**
+	 * Finds the profile for a URL.
+	 * The profile with the longest matching domain wins, so `docs.example.com`
+	 * takes precedence over `example.com`.
+	 * @param url - The URL to fetch
+	 * @param profiles - The configured profiles
+	 * @returns The matching profile or undefined if none applies
+	 */
+	public static find(
+		url: string,
+		profiles: RequestProfile[],
+	): RequestProfile | undefined {
+		let hostname: string;
+		try {
+			hostname = new URL(url).hostname.toLowerCase();
+		} catch {
+			return;
+		}
+
+		let best: RequestProfile | undefined;
+		for (const profile of profiles) {
+			const domain = RequestProfiles.normalizeDomain(profile.domain);
+			if (!domain) continue;
+			if (hostname !== domain && !hostname.endsWith(`.${domain}`)) continue;
+			if (
+				!best ||
+				domain.length > RequestProfiles.normalizeDomain(best.domain).length
+			) {
+				best = profile;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Builds the request headers of a profile.
+	 * Lines of the extra headers without a colon are ignored.
+	 * @param profile - The profile to apply
+	 * @returns The headers to send
+	 */
+	public static getHeaders(profile: RequestProfile): Record<string, string> {
+		const headers: Record<string, string> = {};
+
+		for (const line of profile.headers.split("\n")) {
+			const separator = line.indexOf(":");
+			if (separator <= 0) continue;
+			const name = line.slice(0, separator).trim();
+			const value = line.slice(separator + 1).trim();
+			if (name) headers[name] = value;
+		}
+
+		if (profile.userAgent.trim()) {
+			headers["User-Agent"] = profile.userAgent.trim();
+		}
+		if (profile.acceptLanguage.trim()) {
+			headers["Accept-Language"] = profile.acceptLanguage.trim();
+		}
+		if (profile.cookie.trim()) headers.Cookie = profile.cookie.trim();
+
+		return headers;
+	}
+
+	/**
+	 * Normalizes the domain entered by the user.
+	 * Accepts a bare domain, a leading `*.` or `.`, or a full URL.
+	 * @param domain - The domain as entered
+	 * @returns The lowercase hostname, or an empty string if nothing was entered
+	 */
+	private static normalizeDomain(domain: string): string {
+		const trimmed = domain.trim().toLowerCase();
+		if (!trimmed) return "";
+		try {
+			return new URL(trimmed).hostname;
+		} catch {
+			return trimmed.replace(/^\*?\./, "").replace(/\/.*$/, "");
+		}
+	}
+}
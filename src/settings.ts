@@ -3,10 +3,26 @@
  * @module settings
  */
 
-import { type App, PluginSettingTab, Setting } from "obsidian";
+import { type App, Notice, PluginSettingTab, Setting } from "obsidian";
 
+import type { RevertFormat } from "src/card_reverter";
+import type { PasteLinkMode } from "src/clipboard_links";
+import {
+	FETCH_FRONTMATTER_KEY,
+	PRIVATE_NETWORK_PATTERNS,
+} from "src/fetch_policy";
+import type { CardLayout } from "src/interfaces";
 import { i18n } from "src/lang/i18n";
 import type ObsidianAutoCardLink from "src/main";
+import { OEMBED_PROVIDERS } from "src/oembed";
+import {
+	CARDLINK_TEMPLATE_ID,
+	DEFAULT_OUTPUT_TEMPLATES,
+	type OutputTemplate,
+	PLACEHOLDERS,
+} from "src/output_templates";
+import type { RequestProfile } from "src/request_profiles";
+import { DEFAULT_TRACKING_PARAMETERS } from "src/url_normalizer";
 
 /**
  * Plugin settings configuration interface.
@@ -16,6 +32,64 @@ export interface ObsidianAutoCardLinkSettings {
 	showInMenuItem: boolean;
 	/** Whether to automatically convert pasted URLs to card links */
 	enhanceDefaultPaste: boolean;
+	/** Which links of pasted text with several links are converted */
+	pasteLinkMode: PasteLinkMode;
+	/** Whether to ask how a pasted URL is written instead of always using the default template */
+	pasteChooser: boolean;
+	/** The paste choice made last time, keyed by hostname */
+	pasteChoices: Record<string, string>;
+	/** Whether to cache fetched metadata between sessions */
+	cacheEnabled: boolean;
+	/** Number of days before a cached entry expires (0 = never) */
+	cacheTtlDays: number;
+	/** Maximum number of cached entries (0 = unlimited) */
+	cacheMaxEntries: number;
+	/** Layout of cards that don't set their own */
+	defaultLayout: CardLayout;
+	/** Whether to show standalone links as cards in Live Preview and Reading view */
+	virtualCards: boolean;
+	/** Whether to download favicons and images into the vault when creating cards */
+	localizeImages: boolean;
+	/** Vault folder downloaded images are stored in */
+	imageFolder: string;
+	/** Whether to use oEmbed endpoints advertised by pages */
+	oembedDiscovery: boolean;
+	/** Ids of built-in oEmbed providers that are turned off */
+	oembedDisabledProviders: string[];
+	/** Whether to replace pasted URLs with canonical URLs without tracking parameters */
+	normalizeUrls: boolean;
+	/** Whether to keep the pasted URL as `original_url` when it was normalized */
+	keepOriginalUrl: boolean;
+	/** Query parameters removed by normalization; a trailing `*` matches any suffix */
+	trackingParameters: string[];
+	/** Whether the link checker writes its outcome and the date into the cards */
+	recordCheckResults: boolean;
+	/** Seconds the link checker waits for a page */
+	checkTimeoutSeconds: number;
+	/** Archive lookup URL with a `{url}` placeholder, used to fix broken cards */
+	archiveEndpoint: string;
+	/** Maximum number of pages fetched at the same time by bulk operations */
+	fetchConcurrency: number;
+	/** Seconds to wait for the metadata of a link before giving up */
+	fetchTimeoutSeconds: number;
+	/** Host patterns that may be fetched; empty allows every host not denied */
+	fetchAllowList: string[];
+	/** Host patterns that are never fetched */
+	fetchDenyList: string[];
+	/** Whether cards load remote favicons and images without being clicked */
+	loadRemoteImages: boolean;
+	/** Whether refreshing a card keeps fields that were edited by hand */
+	refreshKeepEditedFields: boolean;
+	/** Format cards are converted back to */
+	revertFormat: RevertFormat;
+	/** Request settings applied to pages of specific domains */
+	requestProfiles: RequestProfile[];
+	/** Template used when revertFormat is "template" */
+	revertTemplate: string;
+	/** Named templates links can be pasted with */
+	outputTemplates: OutputTemplate[];
+	/** Id of the output template used by the paste commands, or "cardlink" for a card */
+	defaultTemplate: string;
 }
 
 /**
@@ -24,6 +98,35 @@ export interface ObsidianAutoCardLinkSettings {
 export const DEFAULT_SETTINGS: ObsidianAutoCardLinkSettings = {
 	showInMenuItem: true,
 	enhanceDefaultPaste: false,
+	pasteLinkMode: "lines",
+	pasteChooser: false,
+	pasteChoices: {},
+	cacheEnabled: true,
+	cacheTtlDays: 7,
+	cacheMaxEntries: 1000,
+	defaultLayout: "thumbnail-left",
+	virtualCards: false,
+	localizeImages: false,
+	imageFolder: "attachments/auto-card-link",
+	oembedDiscovery: true,
+	oembedDisabledProviders: [],
+	normalizeUrls: false,
+	keepOriginalUrl: false,
+	trackingParameters: DEFAULT_TRACKING_PARAMETERS,
+	recordCheckResults: true,
+	checkTimeoutSeconds: 15,
+	archiveEndpoint: "https://archive.org/wayback/available?url={url}",
+	fetchConcurrency: 4,
+	fetchTimeoutSeconds: 20,
+	fetchAllowList: [],
+	fetchDenyList: PRIVATE_NETWORK_PATTERNS,
+	loadRemoteImages: true,
+	refreshKeepEditedFields: true,
+	revertFormat: "markdown",
+	requestProfiles: [],
+	revertTemplate: "[{{title}}]({{url}})",
+	outputTemplates: DEFAULT_OUTPUT_TEMPLATES,
+	defaultTemplate: CARDLINK_TEMPLATE_ID,
 };
 
 /**
@@ -66,6 +169,35 @@ export class ObsidianAutoCardLinkSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName(i18n.settings.pasteLinkMode.name)
+			.setDesc(i18n.settings.pasteLinkMode.desc)
+			.addDropdown((dropdown) => {
+				if (!this.plugin.settings) return;
+				return dropdown
+					.addOptions(i18n.settings.pasteLinkMode.options)
+					.setValue(this.plugin.settings.pasteLinkMode)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.pasteLinkMode = value as PasteLinkMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.pasteChooser.name)
+			.setDesc(i18n.settings.pasteChooser.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.pasteChooser)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.pasteChooser = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName(i18n.settings.showInMenuItem.name)
 			.setDesc(i18n.settings.showInMenuItem.desc)
@@ -79,5 +211,656 @@ export class ObsidianAutoCardLinkSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.defaultLayout.name)
+			.setDesc(i18n.settings.defaultLayout.desc)
+			.addDropdown((dropdown) => {
+				if (!this.plugin.settings) return;
+				return dropdown
+					.addOptions(i18n.settings.defaultLayout.options)
+					.setValue(this.plugin.settings.defaultLayout)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.defaultLayout = value as CardLayout;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.virtualCards.name)
+			.setDesc(i18n.settings.virtualCards.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.virtualCards)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.virtualCards = value;
+						await this.plugin.saveSettings();
+						this.app.workspace.updateOptions();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.localizeImages.name)
+			.setDesc(i18n.settings.localizeImages.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.localizeImages)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.localizeImages = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.imageFolder.name)
+			.setDesc(i18n.settings.imageFolder.desc)
+			.addText((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setPlaceholder(DEFAULT_SETTINGS.imageFolder)
+					.setValue(this.plugin.settings.imageFolder)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.imageFolder = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.normalizeUrls.name)
+			.setDesc(i18n.settings.normalizeUrls.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.normalizeUrls)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.normalizeUrls = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.keepOriginalUrl.name)
+			.setDesc(i18n.settings.keepOriginalUrl.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.keepOriginalUrl)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.keepOriginalUrl = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.trackingParameters.name)
+			.setDesc(i18n.settings.trackingParameters.desc)
+			.addTextArea((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setPlaceholder(DEFAULT_TRACKING_PARAMETERS.join("\n"))
+					.setValue(this.plugin.settings.trackingParameters.join("\n"))
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.trackingParameters = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.fetchConcurrency.name)
+			.setDesc(i18n.settings.fetchConcurrency.desc)
+			.addSlider((slider) => {
+				if (!this.plugin.settings) return;
+				return slider
+					.setLimits(1, 16, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.fetchConcurrency)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.fetchConcurrency = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.fetchTimeout.name)
+			.setDesc(i18n.settings.fetchTimeout.desc)
+			.addSlider((slider) => {
+				if (!this.plugin.settings) return;
+				return slider
+					.setLimits(5, 120, 5)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.fetchTimeoutSeconds)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.fetchTimeoutSeconds = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.refreshKeepEditedFields.name)
+			.setDesc(i18n.settings.refreshKeepEditedFields.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.refreshKeepEditedFields)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.refreshKeepEditedFields = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.revertFormat.name)
+			.setDesc(i18n.settings.revertFormat.desc)
+			.addDropdown((dropdown) => {
+				if (!this.plugin.settings) return;
+				return dropdown
+					.addOptions(i18n.settings.revertFormat.options)
+					.setValue(this.plugin.settings.revertFormat)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.revertFormat = value as RevertFormat;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.revertTemplate.name)
+			.setDesc(i18n.settings.revertTemplate.desc)
+			.addTextArea((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setValue(this.plugin.settings.revertTemplate)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.revertTemplate = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.displayTemplateSettings(containerEl);
+		this.displayOEmbedSettings(containerEl);
+		this.displayRequestProfileSettings(containerEl);
+		this.displayLinkCheckSettings(containerEl);
+		this.displayPrivacySettings(containerEl);
+		this.displayCacheSettings(containerEl);
+	}
+
+	/**
+	 * Renders the output template section: the default output and one editor per template.
+	 * Templates are replaced rather than mutated, so the defaults stay untouched.
+	 * @param containerEl - The element to render into
+	 */
+	private displayTemplateSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(i18n.settings.templates.heading)
+			.setDesc(
+				i18n.settings.templates.desc.replace(
+					"{placeholders}",
+					PLACEHOLDERS.map((key) => `{{${key}}}`).join(", "),
+				),
+			)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(i18n.settings.templates.default.name)
+			.setDesc(i18n.settings.templates.default.desc)
+			.addDropdown((dropdown) => {
+				if (!this.plugin.settings) return;
+				dropdown.addOption(
+					CARDLINK_TEMPLATE_ID,
+					i18n.settings.templates.cardlink,
+				);
+				for (const template of this.plugin.settings.outputTemplates) {
+					dropdown.addOption(template.id, template.name);
+				}
+				return dropdown
+					.setValue(this.plugin.settings.defaultTemplate)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.defaultTemplate = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const update = async (
+			id: string,
+			change: Partial<OutputTemplate> | null,
+		): Promise<void> => {
+			if (!this.plugin.settings) return;
+			const templates = this.plugin.settings.outputTemplates;
+			this.plugin.settings.outputTemplates = change
+				? templates.map((template) =>
+						template.id === id ? { ...template, ...change } : template,
+					)
+				: templates.filter((template) => template.id !== id);
+			if (!change && this.plugin.settings.defaultTemplate === id) {
+				this.plugin.settings.defaultTemplate = CARDLINK_TEMPLATE_ID;
+			}
+			await this.plugin.saveSettings();
+			this.plugin.registerTemplateCommands();
+		};
+
+		for (const template of this.plugin.settings?.outputTemplates ?? []) {
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder(i18n.settings.templates.namePlaceholder)
+						.setValue(template.name)
+						.onChange((value) => update(template.id, { name: value })),
+				)
+				.addTextArea((text) =>
+					text
+						.setValue(template.template)
+						.onChange((value) => update(template.id, { template: value })),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip(i18n.settings.templates.remove)
+						.onClick(async () => {
+							await update(template.id, null);
+							this.display();
+						}),
+				);
+		}
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText(i18n.settings.templates.add).onClick(async () => {
+				if (!this.plugin.settings) return;
+				this.plugin.settings.outputTemplates = [
+					...this.plugin.settings.outputTemplates,
+					{
+						id: crypto.randomUUID().slice(0, 8),
+						name: i18n.settings.templates.newName,
+						template: "[{{title|escape}}]({{url}})",
+					},
+				];
+				await this.plugin.saveSettings();
+				this.plugin.registerTemplateCommands();
+				this.display();
+			}),
+		);
+	}
+
+	/**
+	 * Renders the oEmbed section with a toggle per built-in provider.
+	 * @param containerEl - The element to render into
+	 */
+	private displayOEmbedSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(i18n.settings.oembed.heading).setHeading();
+
+		new Setting(containerEl)
+			.setName(i18n.settings.oembed.discovery.name)
+			.setDesc(i18n.settings.oembed.discovery.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.oembedDiscovery)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.oembedDiscovery = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		for (const provider of OEMBED_PROVIDERS) {
+			new Setting(containerEl)
+				.setName(provider.name)
+				.setDesc(i18n.settings.oembed.provider.desc)
+				.addToggle((val) => {
+					if (!this.plugin.settings) return;
+					return val
+						.setValue(
+							!this.plugin.settings.oembedDisabledProviders.includes(
+								provider.id,
+							),
+						)
+						.onChange(async (value) => {
+							if (!this.plugin.settings) return;
+							const disabled =
+								this.plugin.settings.oembedDisabledProviders.filter(
+									(id) => id !== provider.id,
+								);
+							if (!value) disabled.push(provider.id);
+							this.plugin.settings.oembedDisabledProviders = disabled;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+	}
+
+	/**
+	 * Renders the request profile section with the fields of every profile.
+	 * Profiles are replaced rather than mutated, like output templates.
+	 * @param containerEl - The element to render into
+	 */
+	private displayRequestProfileSettings(containerEl: HTMLElement): void {
+		const texts = i18n.settings.requestProfiles;
+
+		new Setting(containerEl)
+			.setName(texts.heading)
+			.setDesc(texts.desc)
+			.setHeading();
+
+		const update = async (
+			id: string,
+			change: Partial<RequestProfile> | null,
+		): Promise<void> => {
+			if (!this.plugin.settings) return;
+			const profiles = this.plugin.settings.requestProfiles;
+			this.plugin.settings.requestProfiles = change
+				? profiles.map((profile) =>
+						profile.id === id ? { ...profile, ...change } : profile,
+					)
+				: profiles.filter((profile) => profile.id !== id);
+			await this.plugin.saveSettings();
+		};
+
+		for (const profile of this.plugin.settings?.requestProfiles ?? []) {
+			new Setting(containerEl)
+				.setName(texts.domain.name)
+				.setDesc(texts.domain.desc)
+				.addText((text) =>
+					text
+						.setPlaceholder("example.com")
+						.setValue(profile.domain)
+						.onChange((value) => update(profile.id, { domain: value })),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip(texts.remove)
+						.onClick(async () => {
+							await update(profile.id, null);
+							this.display();
+						}),
+				);
+
+			new Setting(containerEl)
+				.setName(texts.userAgent)
+				.setClass("auto-card-link-setting-indent")
+				.addText((text) =>
+					text
+						.setValue(profile.userAgent)
+						.onChange((value) => update(profile.id, { userAgent: value })),
+				);
+
+			new Setting(containerEl)
+				.setName(texts.acceptLanguage)
+				.setClass("auto-card-link-setting-indent")
+				.addText((text) =>
+					text
+						.setPlaceholder("en-US,en;q=0.9")
+						.setValue(profile.acceptLanguage)
+						.onChange((value) => update(profile.id, { acceptLanguage: value })),
+				);
+
+			new Setting(containerEl)
+				.setName(texts.cookie.name)
+				.setDesc(texts.cookie.desc)
+				.setClass("auto-card-link-setting-indent")
+				.addText((text) =>
+					text
+						.setPlaceholder("name=value; other=value")
+						.setValue(profile.cookie)
+						.onChange((value) => update(profile.id, { cookie: value })),
+				);
+
+			new Setting(containerEl)
+				.setName(texts.headers.name)
+				.setDesc(texts.headers.desc)
+				.setClass("auto-card-link-setting-indent")
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("Referer: https://www.google.com/")
+						.setValue(profile.headers)
+						.onChange((value) => update(profile.id, { headers: value })),
+				);
+		}
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText(texts.add).onClick(async () => {
+				if (!this.plugin.settings) return;
+				this.plugin.settings.requestProfiles = [
+					...this.plugin.settings.requestProfiles,
+					{
+						id: crypto.randomUUID().slice(0, 8),
+						domain: "",
+						userAgent: "",
+						acceptLanguage: "",
+						cookie: "",
+						headers: "",
+					},
+				];
+				await this.plugin.saveSettings();
+				this.display();
+			}),
+		);
+	}
+
+	/**
+	 * Renders the privacy section: the host allow and deny lists and remote images.
+	 * @param containerEl - The element to render into
+	 */
+	private displayPrivacySettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(i18n.settings.privacy.heading)
+			.setDesc(
+				i18n.settings.privacy.desc.replace("{key}", FETCH_FRONTMATTER_KEY),
+			)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(i18n.settings.privacy.denyList.name)
+			.setDesc(i18n.settings.privacy.denyList.desc)
+			.addTextArea((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setValue(this.plugin.settings.fetchDenyList.join("\n"))
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.fetchDenyList = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line);
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText(i18n.settings.privacy.denyList.addPreset)
+					.onClick(async () => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.fetchDenyList = [
+							...new Set([
+								...this.plugin.settings.fetchDenyList,
+								...PRIVATE_NETWORK_PATTERNS,
+							]),
+						];
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.settings.privacy.allowList.name)
+			.setDesc(i18n.settings.privacy.allowList.desc)
+			.addTextArea((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setValue(this.plugin.settings.fetchAllowList.join("\n"))
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.fetchAllowList = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.privacy.loadRemoteImages.name)
+			.setDesc(i18n.settings.privacy.loadRemoteImages.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.loadRemoteImages)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.loadRemoteImages = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * Renders the link checker section.
+	 * @param containerEl - The element to render into
+	 */
+	private displayLinkCheckSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(i18n.settings.linkCheck.heading)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(i18n.settings.linkCheck.record.name)
+			.setDesc(i18n.settings.linkCheck.record.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.recordCheckResults)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.recordCheckResults = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.linkCheck.timeout.name)
+			.setDesc(i18n.settings.linkCheck.timeout.desc)
+			.addSlider((slider) => {
+				if (!this.plugin.settings) return;
+				return slider
+					.setLimits(5, 60, 5)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.checkTimeoutSeconds)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.checkTimeoutSeconds = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.linkCheck.archiveEndpoint.name)
+			.setDesc(i18n.settings.linkCheck.archiveEndpoint.desc)
+			.addText((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setPlaceholder(DEFAULT_SETTINGS.archiveEndpoint)
+					.setValue(this.plugin.settings.archiveEndpoint)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.archiveEndpoint =
+							value.trim() || DEFAULT_SETTINGS.archiveEndpoint;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * Renders the metadata cache section, including cache statistics.
+	 * @param containerEl - The element to render into
+	 */
+	private displayCacheSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(i18n.settings.cache.heading).setHeading();
+
+		new Setting(containerEl)
+			.setName(i18n.settings.cache.enabled.name)
+			.setDesc(i18n.settings.cache.enabled.desc)
+			.addToggle((val) => {
+				if (!this.plugin.settings) return;
+				return val
+					.setValue(this.plugin.settings.cacheEnabled)
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						this.plugin.settings.cacheEnabled = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.cache.ttlDays.name)
+			.setDesc(i18n.settings.cache.ttlDays.desc)
+			.addText((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setValue(String(this.plugin.settings.cacheTtlDays))
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						const days = Number(value);
+						if (!Number.isFinite(days) || days < 0) return;
+						this.plugin.settings.cacheTtlDays = days;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(i18n.settings.cache.maxEntries.name)
+			.setDesc(i18n.settings.cache.maxEntries.desc)
+			.addText((text) => {
+				if (!this.plugin.settings) return;
+				return text
+					.setValue(String(this.plugin.settings.cacheMaxEntries))
+					.onChange(async (value) => {
+						if (!this.plugin.settings) return;
+						const max = Number(value);
+						if (!Number.isInteger(max) || max < 0) return;
+						this.plugin.settings.cacheMaxEntries = max;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const stats = this.plugin.cache.getStats();
+		new Setting(containerEl)
+			.setName(i18n.settings.cache.stats.name)
+			.setDesc(
+				i18n.settings.cache.stats.desc
+					.replace("{entries}", String(stats.entries))
+					.replace("{size}", (stats.bytes / 1024).toFixed(1))
+					.replace("{hits}", String(stats.hits))
+					.replace("{misses}", String(stats.misses))
+					.replace(
+						"{oldest}",
+						stats.oldest ? new Date(stats.oldest).toLocaleString() : "-",
+					),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(i18n.settings.cache.clear)
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.cache.clear();
+						new Notice(i18n.notices.cacheCleared);
+						this.display();
+					}),
+			);
 	}
 }
@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Normalization of card URLs: canonical URLs and tracking parameters.
+ * @module url_normalizer
+ */
+
+import { Notice, type TFile } from "obsidian";
+
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import type { LinkMetadata } from "src/interfaces";
+import { i18n } from "src/lang/i18n";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Query parameters removed by default. A trailing `*` matches any suffix.
+ */
+export const DEFAULT_TRACKING_PARAMETERS = [
+	"utm_*",
+	"fbclid",
+	"gclid",
+	"gclsrc",
+	"dclid",
+	"msclkid",
+	"yclid",
+	"twclid",
+	"igshid",
+	"mc_cid",
+	"mc_eid",
+	"_hsenc",
+	"_hsmi",
+	"mkt_tok",
+	"ref_src",
+	"ref_url",
+	"_ga",
+	"_gl",
+];
+
+/**
+ * Replaces the pasted URL of a card with the address the page declares and
+ * removes tracking parameters, optionally keeping the pasted URL as `original_url`.
+ */
+export class UrlNormalizer {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+
+	/**
+	 * Creates a new UrlNormalizer.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Normalizes the URL of a new card if enabled in the settings.
+	 * @param linkMetadata - The fetched metadata
+	 * @returns The metadata with the normalized URL
+	 */
+	apply(linkMetadata: LinkMetadata): LinkMetadata {
+		if (!this.plugin.settings?.normalizeUrls) return linkMetadata;
+		return this.normalize(linkMetadata);
+	}
+
+	/**
+	 * Normalizes the URL of a card.
+	 * The canonical URL of the page is preferred, which also resolves
+	 * shortened links, and tracking parameters are removed from the result.
+	 * @param linkMetadata - The metadata of the card
+	 * @returns The metadata with the normalized URL
+	 */
+	normalize(linkMetadata: LinkMetadata): LinkMetadata {
+		const url = UrlNormalizer.stripTracking(
+			UrlNormalizer.resolve(linkMetadata.url, linkMetadata.canonicalUrl),
+			this.plugin.settings?.trackingParameters ?? DEFAULT_TRACKING_PARAMETERS,
+		);
+		if (url === linkMetadata.url) return linkMetadata;
+
+		const normalized: LinkMetadata = { ...linkMetadata, url };
+		const before = UrlNormalizer.getHostname(linkMetadata.url);
+		const after = UrlNormalizer.getHostname(url);
+		// the host of a shortened link is the shortener, so follow the new url
+		if (after && (!linkMetadata.host || linkMetadata.host === before)) {
+			normalized.host = after;
+		}
+		if (this.plugin.settings?.keepOriginalUrl) {
+			normalized.originalUrl = linkMetadata.originalUrl ?? linkMetadata.url;
+		}
+		return normalized;
+	}
+
+	/**
+	 * Normalizes the URLs of every card in the given files.
+	 * Pages are fetched (or read from the cache) for their canonical URL; while
+	 * offline, only tracking parameters are removed.
+	 * @param files - The files to process
+	 */
+	async normalizeFiles(files: TFile[]): Promise<void> {
+		const notice = new Notice(i18n.notices.normalizeProgress, 0);
+		let count = 0;
+
+		for (const file of files) {
+			const text = await this.plugin.app.vault.cachedRead(file);
+			const normalized = new Map<string, LinkMetadata>();
+			for (const block of CardLinkBlocks.find(text)) {
+				let card: LinkMetadata;
+				try {
+					card = CardLinkSchema.parse(block.source);
+				} catch {
+					continue;
+				}
+				if (card.status === "pending" || normalized.has(card.url)) continue;
+
+				const fetched =
+					navigator.onLine && this.plugin.policy.allowsFile(file)
+						? await this.plugin.fetcher.fetch(card.url)
+						: undefined;
+				normalized.set(
+					card.url,
+					this.normalize({ ...card, canonicalUrl: fetched?.canonicalUrl }),
+				);
+			}
+			if (![...normalized].some(([url, card]) => url !== card.url)) continue;
+
+			await this.plugin.app.vault.process(file, (data) => {
+				// Rewrite from the bottom so earlier line numbers stay valid
+				for (const block of CardLinkBlocks.find(data).reverse()) {
+					let card: LinkMetadata;
+					try {
+						card = CardLinkSchema.parse(block.source);
+					} catch {
+						continue;
+					}
+					const after = normalized.get(card.url);
+					if (!after || after.url === card.url) continue;
+
+					data = CardLinkBlocks.replaceBody(
+						data,
+						block,
+						CardLinkSchema.serialize({
+							...card,
+							url: after.url,
+							host: after.host,
+							originalUrl: after.originalUrl,
+						}),
+					);
+					count++;
+				}
+				return data;
+			});
+		}
+
+		notice.hide();
+		new Notice(i18n.notices.normalizeDone.replace("{count}", String(count)));
+	}
+
+	/**
+	 * Chooses between the pasted URL and the canonical URL of the page.
+	 * A canonical URL pointing at the front page of the same site is ignored,
+	 * as some sites declare it on every page.
+	 * @param url - The pasted URL
+	 * @param canonicalUrl - The canonical URL declared by the page
+	 * @returns The URL to use
+	 */
+	static resolve(url: string, canonicalUrl: string | undefined): string {
+		if (!canonicalUrl) return url;
+
+		let pasted: URL;
+		let canonical: URL;
+		try {
+			pasted = new URL(url);
+			canonical = new URL(canonicalUrl);
+		} catch {
+			return url;
+		}
+
+		if (
+			canonical.hostname === pasted.hostname &&
+			canonical.pathname === "/" &&
+			pasted.pathname !== "/"
+		) {
+			return url;
+		}
+		return canonical.toString();
+	}
+
+	/**
+	 * Removes tracking parameters from a URL.
+	 * @param url - The URL to clean
+	 * @param rules - Parameter names to remove; a trailing `*` matches any suffix
+	 * @returns The URL without matching parameters, unchanged if none matched
+	 */
+	static stripTracking(url: string, rules: string[]): string {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return url;
+		}
+
+		const matchers = rules
+			.map((rule) => rule.trim().toLowerCase())
+			.filter((rule) => rule)
+			.map((rule) =>
+				rule.endsWith("*")
+					? (name: string) => name.startsWith(rule.slice(0, -1))
+					: (name: string) => name === rule,
+			);
+
+		const removed = [...parsed.searchParams.keys()].filter((name) =>
+			matchers.some((matches) => matches(name.toLowerCase())),
+		);
+		if (removed.length === 0) return url;
+
+		for (const name of removed) parsed.searchParams.delete(name);
+		return parsed.toString();
+	}
+
+	/**
+	 * Gets the hostname of a URL.
+	 * @param url - The URL
+	 * @returns The hostname or undefined if the URL is malformed
+	 */
+	private static getHostname(url: string): string | undefined {
+		try {
+			return new URL(url).hostname;
+		} catch {
+			return;
+		}
+	}
+}
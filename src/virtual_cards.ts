@@ -0,0 +1,540 @@
+/**
+ * @fileoverview Renders standalone links as cards without rewriting the note.
+ * @module virtual_cards
+ */
+
+import {
+	type EditorState,
+	type Extension,
+	type Range,
+	RangeSet,
+	RangeSetBuilder,
+	RangeValue,
+	StateEffect,
+	StateField,
+	type Text,
+	type Transaction,
+} from "@codemirror/state";
+import {
+	Decoration,
+	type DecorationSet,
+	EditorView,
+	ViewPlugin,
+	type ViewUpdate,
+	WidgetType,
+} from "@codemirror/view";
+import {
+	editorLivePreviewField,
+	type FrontMatterInfo,
+	getFrontMatterInfo,
+	type MarkdownPostProcessorContext,
+	parseYaml,
+} from "obsidian";
+
+import { BulkConverter } from "src/bulk_converter";
+import { CardLinkBlocks } from "src/cardlink_blocks";
+import { CardLinkSchema } from "src/cardlink_schema";
+import { CheckIf } from "src/checkif";
+import { CodeBlockProcessor } from "src/code_block_processor";
+import { FETCH_FRONTMATTER_KEY } from "src/fetch_policy";
+import type { LinkMetadata } from "src/interfaces";
+import type ObsidianAutoCardLink from "src/main";
+
+/**
+ * Frontmatter key that turns virtual cards off for a note when set to false.
+ */
+export const VIRTUAL_CARDS_FRONTMATTER_KEY = "auto-card-link-virtual";
+
+/**
+ * Effect dispatched when metadata for a visible link has arrived.
+ */
+const refreshEffect = StateEffect.define<null>();
+
+/**
+ * A line of the document that only contains a link.
+ */
+class StandaloneLink extends RangeValue {
+	/**
+	 * Creates a new StandaloneLink.
+	 * @param url - The URL of the link
+	 * @param prefix - Whitespace preceding the link
+	 */
+	constructor(
+		readonly url: string,
+		readonly prefix: string,
+	) {
+		super();
+	}
+
+	eq(other: StandaloneLink): boolean {
+		return other.url === this.url && other.prefix === this.prefix;
+	}
+}
+
+/**
+ * Marks lines that never hold a card.
+ */
+const skippedLines = new (class extends RangeValue {})();
+
+/**
+ * The cards of a document, kept up to date line by line as it is edited.
+ */
+interface CardsState {
+	/** Whether the setting and the frontmatter of the note allow virtual cards */
+	enabled: boolean;
+	/** Offset up to which an edit can change the frontmatter, which rescans the whole document */
+	frontmatterEnd: number;
+	/** Code blocks and frontmatter */
+	skipped: RangeSet<RangeValue>;
+	/** The standalone links, one range per line */
+	links: RangeSet<StandaloneLink>;
+	/** Card decorations of the links whose metadata is known */
+	cards: DecorationSet;
+}
+
+/**
+ * Widget that replaces a standalone link line in Live Preview.
+ */
+class VirtualCardWidget extends WidgetType {
+	/** The card as it would be written to a block, to compare widgets by content */
+	readonly source: string;
+
+	/**
+	 * Creates a new VirtualCardWidget.
+	 * @param linkMetadata - The metadata of the link
+	 * @param prefix - Whitespace preceding the link; each tab is one level of depth
+	 * @param cards - The renderer
+	 */
+	constructor(
+		readonly linkMetadata: LinkMetadata,
+		readonly prefix: string,
+		readonly cards: VirtualCards,
+	) {
+		super();
+		this.source = CardLinkSchema.serialize(linkMetadata).join("\n");
+	}
+
+	eq(other: VirtualCardWidget): boolean {
+		return other.source === this.source && other.prefix === this.prefix;
+	}
+
+	toDOM(): HTMLElement {
+		const depth = this.prefix.split("\t").length - 1;
+		return this.cards.render(this.linkMetadata, depth);
+	}
+}
+
+/**
+ * Shows cards for lines that only contain a URL or a Markdown link, using cached
+ * metadata. Live Preview uses a CodeMirror decoration that reveals the source
+ * when the cursor enters the line; Reading view uses a Markdown post processor.
+ */
+export class VirtualCards {
+	/** Reference to the plugin instance */
+	plugin: ObsidianAutoCardLink;
+	/** Metadata fetched for virtual cards, or null if the fetch failed */
+	private results = new Map<string, LinkMetadata | null>();
+	/** Fetches in progress, keyed by URL */
+	private pending = new Map<string, Promise<LinkMetadata | undefined>>();
+
+	/**
+	 * Creates a new VirtualCards.
+	 * @param plugin - The plugin instance
+	 */
+	constructor(plugin: ObsidianAutoCardLink) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Builds the editor extension for Live Preview.
+	 * @returns The CodeMirror extension
+	 */
+	buildEditorExtension(): Extension {
+		// edits only rescan the lines they touch, and moving the selection only
+		// changes which cards are revealed
+		const field = StateField.define<CardsState>({
+			create: (state) => this.scan(state),
+			update: (value, tr) => {
+				if (tr.reconfigured) return this.scan(tr.state);
+
+				let next = tr.docChanged ? this.rescanChanges(value, tr) : value;
+				if (tr.effects.some((effect) => effect.is(refreshEffect))) {
+					next = { ...next, cards: this.buildCards(next.links) };
+				}
+				return next;
+			},
+			provide: (f) =>
+				EditorView.decorations.compute(
+					[f, "selection", editorLivePreviewField],
+					(state) =>
+						state.field(editorLivePreviewField, false)
+							? VirtualCards.revealSelected(state.field(f).cards, state)
+							: Decoration.none,
+				),
+		});
+
+		// Fetches metadata for visible links that aren't cached yet
+		const cards = this;
+		const fetcher = ViewPlugin.fromClass(
+			class {
+				destroyed = false;
+
+				constructor(readonly view: EditorView) {
+					this.fetchVisible();
+				}
+
+				update(update: ViewUpdate) {
+					if (update.docChanged || update.viewportChanged) this.fetchVisible();
+				}
+
+				destroy() {
+					this.destroyed = true;
+				}
+
+				fetchVisible() {
+					const { enabled, links } = this.view.state.field(field);
+					if (!enabled) return;
+
+					const { from, to } = this.view.viewport;
+					links.between(from, to, (_from, _to, link) => {
+						if (cards.lookup(link.url) !== undefined) return;
+
+						cards.request(link.url).then((linkMetadata) => {
+							if (!linkMetadata || this.destroyed) return;
+							this.view.dispatch({ effects: refreshEffect.of(null) });
+						});
+					});
+				}
+			},
+		);
+
+		return [field, fetcher];
+	}
+
+	/**
+	 * Replaces standalone-link paragraphs in Reading view with cards.
+	 * @param el - The rendered section
+	 * @param ctx - The post processor context
+	 */
+	postProcess = async (
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+	): Promise<void> => {
+		if (!this.isEnabled(ctx.frontmatter)) return;
+
+		for (const paragraphEl of Array.from(el.querySelectorAll("p"))) {
+			const url = VirtualCards.getStandaloneUrl(paragraphEl);
+			if (!url) continue;
+
+			// a failed fetch is remembered as null and not retried on every render
+			const cached = this.lookup(url);
+			const linkMetadata =
+				cached === undefined ? await this.request(url) : cached;
+			if (!linkMetadata) continue;
+
+			paragraphEl.replaceWith(this.render(linkMetadata, 0));
+		}
+	};
+
+	/**
+	 * Renders a card the same way as a cardlink block.
+	 * @param linkMetadata - The metadata of the link
+	 * @param depth - The indentation depth of the card
+	 * @returns The card element
+	 */
+	render(linkMetadata: LinkMetadata, depth: number): HTMLElement {
+		const el = document.createElement("div");
+		el.addClass("auto-card-link-virtual");
+		// genLinkEl resolves local images in place, so don't hand it the cached object
+		el.appendChild(
+			new CodeBlockProcessor(this.plugin).genLinkEl(
+				{ ...linkMetadata, indent: depth },
+				el,
+			),
+		);
+		return el;
+	}
+
+	/**
+	 * Finds the standalone links of a whole document and decides from its
+	 * frontmatter whether it shows cards.
+	 * @param state - The editor state
+	 * @returns The cards of the document
+	 */
+	private scan(state: EditorState): CardsState {
+		const text = state.doc.toString();
+		const info = getFrontMatterInfo(text);
+		const firstLine = state.doc.line(1);
+		// until its closing line is typed, any edit can complete the frontmatter
+		const frontmatterEnd = info.exists
+			? info.contentStart
+			: firstLine.text === "---"
+				? state.doc.length
+				: firstLine.to;
+		const enabled =
+			!!this.plugin.settings?.virtualCards && this.isEnabledIn(info);
+		if (!enabled) {
+			return {
+				enabled,
+				frontmatterEnd,
+				skipped: RangeSet.empty,
+				links: RangeSet.empty,
+				cards: Decoration.none,
+			};
+		}
+
+		const skipped = new RangeSetBuilder<RangeValue>();
+		const links = new RangeSetBuilder<StandaloneLink>();
+		const skippedNumbers = BulkConverter.findSkippedLines(text);
+		let skippedFrom: number | undefined;
+		for (let i = 1; i <= state.doc.lines; i++) {
+			const line = state.doc.line(i);
+			if (skippedNumbers.has(i - 1)) {
+				skippedFrom ??= line.from;
+				if (!skippedNumbers.has(i)) {
+					skipped.add(skippedFrom, line.to, skippedLines);
+					skippedFrom = undefined;
+				}
+				continue;
+			}
+
+			const link = BulkConverter.parseStandaloneLine(line.text);
+			if (link) {
+				links.add(
+					line.from,
+					line.to,
+					new StandaloneLink(link.url, link.prefix),
+				);
+			}
+		}
+
+		const linkSet = links.finish();
+		return {
+			enabled,
+			frontmatterEnd,
+			skipped: skipped.finish(),
+			links: linkSet,
+			cards: this.buildCards(linkSet),
+		};
+	}
+
+	/**
+	 * Updates the cards of the lines an edit touched.
+	 * Edits of the frontmatter or of a code fence rescan the whole document,
+	 * since they can change every line below them.
+	 * @param value - The cards before the edit
+	 * @param tr - The transaction of the edit
+	 * @returns The cards after the edit
+	 */
+	private rescanChanges(value: CardsState, tr: Transaction): CardsState {
+		let rescanAll = false;
+		tr.changes.iterChanges((fromA, toA, fromB, toB) => {
+			rescanAll ||=
+				fromA <= value.frontmatterEnd ||
+				VirtualCards.touchesFence(tr.startState.doc, fromA, toA) ||
+				VirtualCards.touchesFence(tr.state.doc, fromB, toB);
+		});
+		if (rescanAll) return this.scan(tr.state);
+
+		const next: CardsState = {
+			enabled: value.enabled,
+			frontmatterEnd: tr.changes.mapPos(value.frontmatterEnd, 1),
+			skipped: value.skipped.map(tr.changes),
+			links: value.links.map(tr.changes),
+			cards: value.cards.map(tr.changes),
+		};
+		if (!next.enabled) return next;
+
+		const { doc } = tr.state;
+		tr.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+			const first = doc.lineAt(fromB);
+			const last = doc.lineAt(toB);
+			const links: Range<StandaloneLink>[] = [];
+			const cards: Range<Decoration>[] = [];
+			for (let i = first.number; i <= last.number; i++) {
+				const line = doc.line(i);
+				if (VirtualCards.covers(next.skipped, line.from)) continue;
+
+				const found = BulkConverter.parseStandaloneLine(line.text);
+				if (!found) continue;
+				const link = new StandaloneLink(found.url, found.prefix);
+				links.push(link.range(line.from, line.to));
+				const card = this.buildCard(link);
+				if (card) cards.push(card.range(line.from, line.to));
+			}
+
+			const outside = (from: number, to: number) =>
+				to < first.from || from > last.to;
+			next.links = next.links.update({
+				filter: outside,
+				filterFrom: first.from,
+				filterTo: last.to,
+				add: links,
+			});
+			next.cards = next.cards.update({
+				filter: outside,
+				filterFrom: first.from,
+				filterTo: last.to,
+				add: cards,
+			});
+		});
+		return next;
+	}
+
+	/**
+	 * Builds the card decorations of the links whose metadata is known.
+	 * @param links - The standalone links
+	 * @returns The decorations
+	 */
+	private buildCards(links: RangeSet<StandaloneLink>): DecorationSet {
+		const builder = new RangeSetBuilder<Decoration>();
+		for (const cursor = links.iter(); cursor.value; cursor.next()) {
+			const card = this.buildCard(cursor.value);
+			if (card) builder.add(cursor.from, cursor.to, card);
+		}
+		return builder.finish();
+	}
+
+	/**
+	 * Builds the card decoration of a link.
+	 * @param link - The standalone link
+	 * @returns The decoration, or undefined if the metadata isn't known
+	 */
+	private buildCard(link: StandaloneLink): Decoration | undefined {
+		const linkMetadata = this.lookup(link.url);
+		if (!linkMetadata) return;
+		return Decoration.replace({
+			widget: new VirtualCardWidget(linkMetadata, link.prefix, this),
+			block: true,
+		});
+	}
+
+	/**
+	 * Checks whether an edited range of a document includes a code fence.
+	 * @param doc - The document
+	 * @param from - Start of the range
+	 * @param to - End of the range
+	 * @returns True if one of the lines of the range is a fence
+	 */
+	private static touchesFence(doc: Text, from: number, to: number): boolean {
+		for (let i = doc.lineAt(from).number; i <= doc.lineAt(to).number; i++) {
+			if (CardLinkBlocks.isFence(doc.line(i).text)) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Checks whether a position lies inside one of a set of ranges.
+	 * @param ranges - The ranges
+	 * @param pos - The position
+	 * @returns True if a range covers the position
+	 */
+	private static covers(ranges: RangeSet<RangeValue>, pos: number): boolean {
+		let covered = false;
+		ranges.between(pos, pos, () => {
+			covered = true;
+			return false;
+		});
+		return covered;
+	}
+
+	/**
+	 * Leaves out the cards of lines touched by the selection, so their source
+	 * can be edited.
+	 * @param decorations - The card decorations
+	 * @param state - The editor state
+	 * @returns The decorations outside the selection
+	 */
+	private static revealSelected(
+		decorations: DecorationSet,
+		state: EditorState,
+	): DecorationSet {
+		return decorations.update({
+			filter: (from, to) =>
+				!state.selection.ranges.some(
+					(range) => range.from <= to && from <= range.to,
+				),
+		});
+	}
+
+	/**
+	 * Checks whether virtual cards are enabled for the document in an editor.
+	 * @param info - The frontmatter of the document
+	 * @returns True if cards should be shown
+	 */
+	private isEnabledIn(info: FrontMatterInfo): boolean {
+		if (!info.exists) return this.isEnabled(undefined);
+
+		try {
+			return this.isEnabled(parseYaml(info.frontmatter));
+		} catch {
+			return this.isEnabled(undefined);
+		}
+	}
+
+	/**
+	 * Checks the setting and the per-note opt-outs; notes that turn fetching
+	 * off don't show virtual cards either.
+	 * @param frontmatter - The frontmatter of the note
+	 * @returns True if cards should be shown
+	 */
+	private isEnabled(frontmatter: Record<string, unknown> | undefined): boolean {
+		if (!this.plugin.settings?.virtualCards) return false;
+		return (
+			frontmatter?.[VIRTUAL_CARDS_FRONTMATTER_KEY] !== false &&
+			frontmatter?.[FETCH_FRONTMATTER_KEY] !== false
+		);
+	}
+
+	/**
+	 * Looks up metadata without fetching.
+	 * @param url - The URL of the link
+	 * @returns The metadata, null if fetching it failed, or undefined if it is unknown
+	 */
+	private lookup(url: string): LinkMetadata | null | undefined {
+		const result = this.results.get(url);
+		return result !== undefined ? result : this.plugin.cache.peek(url);
+	}
+
+	/**
+	 * Fetches metadata for a link once, sharing concurrent requests.
+	 * Nothing is fetched while offline.
+	 * @param url - The URL of the link
+	 * @returns The metadata or undefined if it couldn't be fetched
+	 */
+	private request(url: string): Promise<LinkMetadata | undefined> {
+		const pending = this.pending.get(url);
+		if (pending) return pending;
+		if (!navigator.onLine) return Promise.resolve(undefined);
+
+		const promise = this.plugin.fetcher.fetch(url).then((linkMetadata) => {
+			this.results.set(url, linkMetadata ?? null);
+			this.pending.delete(url);
+			return linkMetadata;
+		});
+		this.pending.set(url, promise);
+		return promise;
+	}
+
+	/**
+	 * Gets the URL of a rendered paragraph that only contains a link.
+	 * @param paragraphEl - The paragraph element
+	 * @returns The URL or undefined if the paragraph contains anything else
+	 */
+	private static getStandaloneUrl(
+		paragraphEl: HTMLElement,
+	): string | undefined {
+		const children = Array.from(paragraphEl.childNodes).filter(
+			(node) => node.nodeType !== Node.TEXT_NODE || node.textContent?.trim(),
+		);
+		if (children.length !== 1) return;
+
+		const linkEl = children[0];
+		if (!(linkEl instanceof HTMLAnchorElement)) return;
+		if (!linkEl.hasClass("external-link")) return;
+
+		const url = linkEl.getAttr("href");
+		if (!url || !CheckIf.isUrl(url)) return;
+		return url;
+	}
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+
+import { CardFields } from "src/card_fields";
+import type { LinkMetadata } from "src/interfaces";
+
+const fetched: LinkMetadata = {
+	url: "https://example.com/post",
+	title: "A post",
+	host: "example.com",
+	image: "[[attachments/cover.png]]",
+	badges: ["TypeScript", "★ 12"],
+	indent: 0,
+};
+
+describe("CardFields", () => {
+	test("hashes the non-empty fields", () => {
+		const hashes = CardFields.parseHashes(CardFields.hash(fetched));
+		expect([...hashes.keys()]).toEqual(["title", "host", "badges", "image"]);
+	});
+
+	test("treats fields written as fetched as unedited", () => {
+		const card = CardFields.withHashes(fetched);
+		const hashes = CardFields.parseHashes(card.fetchedHash ?? "");
+		for (const field of ["title", "host", "badges", "image"] as const) {
+			expect(CardFields.isEdited(card, field, hashes)).toBe(false);
+		}
+	});
+
+	test("finds fields edited by hand", () => {
+		const card = CardFields.withHashes(fetched);
+		const hashes = CardFields.parseHashes(card.fetchedHash ?? "");
+		const edited = { ...card, title: "My title", description: "My notes" };
+		expect(CardFields.isEdited(edited, "title", hashes)).toBe(true);
+		expect(CardFields.isEdited(edited, "description", hashes)).toBe(true);
+		expect(CardFields.isEdited({ ...card, image: "" }, "image", hashes)).toBe(
+			false,
+		);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+
+import { CharsetDecoder } from "src/charset_decoder";
+import { fixtureBytes } from "tests/setup";
+
+/**
+ * Each fixture page, its charset label and its title.
+ */
+const pages = [
+	{
+		name: "shift_jis",
+		charset: "Shift_JIS",
+		title: "日本語のページ｜カードリンク",
+	},
+	{ name: "euc-jp", charset: "EUC-JP", title: "EUC-JPのページ" },
+	{ name: "gbk", charset: "GBK", title: "中文网页标题" },
+	{
+		name: "windows-1252",
+		charset: "windows-1252",
+		title: "Café crème — naïve façade",
+	},
+];
+
+/**
+ * Decodes a fixture page and reads its title.
+ * @param path - The fixture path
+ * @param contentType - The Content-Type header
+ * @returns The decoded title
+ */
+function decodeTitle(path: string, contentType?: string): string | undefined {
+	const text = CharsetDecoder.decode(fixtureBytes(path), contentType);
+	return /<title>(.*)<\/title>/.exec(text)?.[1];
+}
+
+describe("CharsetDecoder", () => {
+	test.each(pages)("uses the charset of the Content-Type header for $name", ({
+		name,
+		charset,
+		title,
+	}) => {
+		expect(
+			decodeTitle(
+				`charset/${name}_undeclared.html`,
+				`text/html; charset=${charset}`,
+			),
+		).toBe(title);
+	});
+
+	test.each([
+		{ path: "shift_jis_meta.html", title: pages[0].title },
+		{ path: "euc-jp_http_equiv.html", title: pages[1].title },
+		{ path: "gbk_meta.html", title: pages[2].title },
+		{ path: "windows-1252_http_equiv.html", title: pages[3].title },
+	])("uses the charset declared in the markup of $path", ({ path, title }) => {
+		expect(decodeTitle(`charset/${path}`, "text/html")).toBe(title);
+	});
+
+	test.each(pages)("sniffs $name when no charset is declared", ({
+		name,
+		title,
+	}) => {
+		expect(decodeTitle(`charset/${name}_undeclared.html`)).toBe(title);
+	});
+
+	test("maps charset names TextDecoder doesn't know", () => {
+		expect(
+			decodeTitle(
+				"charset/shift_jis_undeclared.html",
+				"text/html; charset=x-sjis",
+			),
+		).toBe(pages[0].title);
+	});
+
+	test("reads UTF-8 without a declared charset", () => {
+		const data = new TextEncoder().encode("<title>Ünïcödé テスト</title>");
+		expect(CharsetDecoder.decode(data.buffer as ArrayBuffer)).toBe(
+			"<title>Ünïcödé テスト</title>",
+		);
+	});
+});
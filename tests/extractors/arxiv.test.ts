@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import { arxivExtractor } from "src/extractors/arxiv";
+import { fixture, request, serve } from "tests/setup";
+
+describe("arxivExtractor", () => {
+	beforeEach(() => {
+		serve({
+			"https://export.arxiv.org/api/query?id_list=1706.03762":
+				fixture("arxiv/query.xml"),
+		});
+	});
+
+	test.each([
+		"https://arxiv.org/abs/1706.03762",
+		"https://arxiv.org/pdf/1706.03762.pdf",
+		"https://arxiv.org/html/1706.03762",
+	])("reads the paper of %s from the API", async (url) => {
+		const metadata = await arxivExtractor.extract(new URL(url), request);
+		expect(metadata).toEqual({
+			title: "Attention Is All You Need",
+			description:
+				"The dominant sequence transduction models are based on complex recurrent or convolutional neural networks in an encoder-decoder configuration.",
+			author: "Ashish Vaswani, Noam Shazeer, Niki Parmar et al.",
+			published: "2017-06-12",
+			siteName: "arXiv",
+			type: "article",
+			badges: ["cs.CL"],
+		});
+	});
+
+	test("ignores pages that aren't papers", async () => {
+		expect(
+			await arxivExtractor.extract(
+				new URL("https://arxiv.org/list/cs.CL/recent"),
+				request,
+			),
+		).toBeUndefined();
+	});
+});
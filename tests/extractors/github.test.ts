@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import { githubExtractor } from "src/extractors/github";
+import { fixture, request, requestUrl, serve } from "tests/setup";
+
+const apiUrl = "https://api.github.com/repos/nekoshita/obsidian-auto-card-link";
+
+describe("githubExtractor", () => {
+	beforeEach(() => {
+		serve({ [apiUrl]: fixture("github/repository.json") });
+	});
+
+	test("shows the repository description, language, stars and forks", async () => {
+		const metadata = await githubExtractor.extract(
+			new URL("https://github.com/nekoshita/obsidian-auto-card-link"),
+			request,
+		);
+		expect(metadata).toEqual({
+			title: "nekoshita/obsidian-auto-card-link",
+			description:
+				"Automatically fetches metadata from a url and makes it as a card-styled link",
+			author: "nekoshita",
+			siteName: "GitHub",
+			badges: ["TypeScript", "★ 1.3k", "Forks 73"],
+		});
+	});
+
+	test("accepts a trailing slash", async () => {
+		const metadata = await githubExtractor.extract(
+			new URL("https://github.com/nekoshita/obsidian-auto-card-link/"),
+			request,
+		);
+		expect(metadata?.title).toBe("nekoshita/obsidian-auto-card-link");
+	});
+
+	test.each([
+		"https://github.com/nekoshita/obsidian-auto-card-link/issues/42",
+		"https://github.com/nekoshita/obsidian-auto-card-link/pull/7",
+		"https://github.com/nekoshita/obsidian-auto-card-link/blob/main/README.md",
+		"https://github.com/nekoshita/obsidian-auto-card-link/commit/d72af85",
+		"https://github.com/nekoshita",
+	])("leaves %s to the page metadata", async (url) => {
+		expect(
+			await githubExtractor.extract(new URL(url), request),
+		).toBeUndefined();
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+
+	test("gives up when the repository doesn't exist", async () => {
+		serve({});
+		const metadata = await githubExtractor.extract(
+			new URL("https://github.com/nekoshita/missing"),
+			request,
+		);
+		expect(metadata).toBeUndefined();
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+
+import { npmExtractor } from "src/extractors/npm";
+import { fixture, request, serve } from "tests/setup";
+
+const packageUrl = new URL("https://www.npmjs.com/package/@biomejs/biome");
+
+describe("npmExtractor", () => {
+	test("shows the version, license and weekly downloads", async () => {
+		serve({
+			"https://registry.npmjs.org/@biomejs/biome/latest":
+				fixture("npm/latest.json"),
+			"https://api.npmjs.org/downloads/point/last-week/@biomejs/biome":
+				fixture("npm/downloads.json"),
+		});
+		expect(await npmExtractor.extract(packageUrl, request)).toEqual({
+			title: "@biomejs/biome",
+			description: "Biome is a toolchain for the web",
+			siteName: "npm",
+			badges: ["v2.3.8", "MIT OR Apache-2.0", "4.2M/week"],
+		});
+	});
+
+	test("leaves out the downloads when they can't be fetched", async () => {
+		serve({
+			"https://registry.npmjs.org/@biomejs/biome/latest":
+				fixture("npm/latest.json"),
+		});
+		const metadata = await npmExtractor.extract(packageUrl, request);
+		expect(metadata?.badges).toEqual(["v2.3.8", "MIT OR Apache-2.0"]);
+	});
+
+	test("gives up when the package doesn't exist", async () => {
+		serve({});
+		expect(await npmExtractor.extract(packageUrl, request)).toBeUndefined();
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, spyOn, test } from "bun:test";
+
+import {
+	type SiteExtractor,
+	SiteExtractorRegistry,
+} from "src/extractors/registry";
+import { requestUrl, serve } from "tests/setup";
+
+/**
+ * Builds an extractor that returns a fixed title.
+ * @param id - The extractor id
+ * @param title - The title to return, or undefined to decline
+ * @returns The extractor
+ */
+function extractor(id: string, title?: string): SiteExtractor {
+	return {
+		id,
+		hostPattern: /^example\.com$/,
+		mode: "before",
+		extract: async () => (title ? { title } : undefined),
+	};
+}
+
+describe("SiteExtractorRegistry", () => {
+	test("runs the first matching extractor that returns metadata", async () => {
+		const registry = new SiteExtractorRegistry([
+			extractor("declines"),
+			extractor("first", "First"),
+			extractor("second", "Second"),
+		]);
+		const result = await registry.extract("https://example.com/page");
+		expect(result?.extractor.id).toBe("first");
+		expect(result?.metadata).toEqual({ title: "First" });
+	});
+
+	test("skips extractors of other hosts and invalid urls", async () => {
+		const registry = new SiteExtractorRegistry([extractor("first", "First")]);
+		expect(await registry.extract("https://example.org/")).toBeUndefined();
+		expect(await registry.extract("not a url")).toBeUndefined();
+	});
+
+	test("prefers registered extractors and can unregister them", async () => {
+		const registry = new SiteExtractorRegistry([
+			extractor("builtin", "Built-in"),
+		]);
+		const unregister = registry.register(extractor("custom", "Custom"));
+		expect(
+			(await registry.extract("https://example.com/"))?.metadata.title,
+		).toBe("Custom");
+
+		unregister();
+		expect(
+			(await registry.extract("https://example.com/"))?.metadata.title,
+		).toBe("Built-in");
+	});
+
+	test("moves on when an extractor throws", async () => {
+		const log = spyOn(console, "log").mockImplementation(() => {});
+		const registry = new SiteExtractorRegistry([
+			{ ...extractor("broken"), extract: () => Promise.reject(new Error()) },
+			extractor("working", "Working"),
+		]);
+		const result = await registry.extract("https://example.com/");
+		expect(result?.extractor.id).toBe("working");
+		expect(log).toHaveBeenCalledWith(
+			"extractor broken failed",
+			expect.any(Error),
+		);
+		log.mockRestore();
+	});
+
+	test("only sends the requests the fetch policy allows", async () => {
+		serve({ "https://api.example.com/item": { title: "From the API" } });
+		const registry = new SiteExtractorRegistry([
+			{
+				...extractor("api"),
+				extract: async (_url, request) =>
+					(await request({ url: "https://api.example.com/item" }))?.json,
+			},
+		]);
+
+		const denied = await registry.extract(
+			"https://example.com/item",
+			() => false,
+		);
+		expect(denied).toBeUndefined();
+		expect(requestUrl).not.toHaveBeenCalled();
+
+		const allowed = await registry.extract("https://example.com/item", (url) =>
+			url.startsWith("https://api.example.com/"),
+		);
+		expect(allowed?.metadata).toEqual({ title: "From the API" });
+	});
+
+	test("formats counts for badges", () => {
+		expect(SiteExtractorRegistry.formatCount(999)).toBe("999");
+		expect(SiteExtractorRegistry.formatCount(12_345)).toBe("12.3k");
+		expect(SiteExtractorRegistry.formatCount(4_213_570)).toBe("4.2M");
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+
+import { stackExchangeExtractor } from "src/extractors/stack_exchange";
+import { fixture, request, requestUrl, serve } from "tests/setup";
+
+describe("stackExchangeExtractor", () => {
+	test("shows the score, answers, accepted state and tags", async () => {
+		serve({
+			"https://api.stackexchange.com/2.3/questions/1129216?site=stackoverflow":
+				fixture("stack_exchange/question.json"),
+		});
+		const metadata = await stackExchangeExtractor.extract(
+			new URL(
+				"https://stackoverflow.com/questions/1129216/sort-array-of-objects",
+			),
+			request,
+		);
+		expect(metadata).toEqual({
+			title: "Sort array of objects by string property value & order",
+			author: "Tyrone Slothrop",
+			published: "2009-07-17",
+			badges: [
+				"Score 4.1k",
+				"54 answers",
+				"✓ Accepted",
+				"javascript",
+				"arrays",
+				"sorting",
+			],
+		});
+	});
+
+	test("asks the API for the site of a stackexchange.com subdomain", async () => {
+		serve({
+			"https://api.stackexchange.com/2.3/questions/1129216?site=unix": fixture(
+				"stack_exchange/question.json",
+			),
+		});
+		const metadata = await stackExchangeExtractor.extract(
+			new URL("https://unix.stackexchange.com/q/1129216"),
+			request,
+		);
+		expect(metadata?.author).toBe("Tyrone Slothrop");
+	});
+
+	test("ignores pages that aren't questions", async () => {
+		serve({});
+		expect(
+			await stackExchangeExtractor.extract(
+				new URL("https://stackoverflow.com/users/1/jeff-atwood"),
+				request,
+			),
+		).toBeUndefined();
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+
+import { FileMetadata } from "src/file_metadata";
+
+/**
+ * Builds the card of a PDF from its source.
+ * @param source - The PDF as text
+ * @returns The card metadata
+ */
+function buildPdf(source: string) {
+	return FileMetadata.build(
+		"https://example.com/docs/report.pdf",
+		"pdf",
+		{ "content-type": "application/pdf" },
+		new TextEncoder().encode(source).buffer as ArrayBuffer,
+	);
+}
+
+describe("FileMetadata", () => {
+	test.each([
+		["text/html; charset=utf-8", undefined],
+		["image/png", "image"],
+		["application/pdf", "pdf"],
+		["video/mp4", "video"],
+		["audio/mpeg", "audio"],
+		["application/zip", "file"],
+		[undefined, undefined],
+	])("gets the kind of %s", (contentType, kind) => {
+		expect(FileMetadata.getKind(contentType)).toBe(kind as never);
+	});
+
+	test("reads the size of a PNG image", () => {
+		const png = new Uint8Array(24);
+		png.set([0x89, 0x50, 0x4e, 0x47], 0);
+		const view = new DataView(png.buffer);
+		view.setUint32(16, 640);
+		view.setUint32(20, 480);
+
+		const card = FileMetadata.build(
+			"https://example.com/images/a%20photo.png",
+			"image",
+			{ "content-type": "image/png" },
+			png.buffer,
+		);
+		expect(card).toMatchObject({
+			title: "a photo.png",
+			image: "https://example.com/images/a%20photo.png",
+			mimeType: "image/png",
+			size: 24,
+			width: 640,
+			height: 480,
+		});
+	});
+
+	test("reads the title of the information dictionary and the page tree count", () => {
+		const card = buildPdf(`%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R /Outlines 5 0 R >> endobj
+2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >> endobj
+3 0 obj << /Type /Page /Parent 2 0 R >> endobj
+4 0 obj << /Type /Page /Parent 2 0 R >> endobj
+5 0 obj << /Type /Outlines /First 6 0 R /Count 12 >> endobj
+6 0 obj << /Title (Chapter 1) /Parent 5 0 R /Dest [3 0 R /Fit] >> endobj
+7 0 obj << /Title (Annual \\(2024\\) report) /Producer (Writer) >> endobj
+trailer << /Size 8 /Root 1 0 R /Info 7 0 R >>
+%%EOF`);
+		expect(card.title).toBe("Annual (2024) report");
+		expect(card.pages).toBe(2);
+	});
+
+	test("uses the newest trailer of an updated PDF", () => {
+		const card = buildPdf(`%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj
+2 0 obj << /Type /Pages /Count 1 >> endobj
+3 0 obj << /Title (Draft) /Creator (Editor) >> endobj
+trailer << /Root 1 0 R /Info 3 0 R >>
+3 0 obj << /Title <FEFF00460069006E0061006C> /Creator (Editor) >> endobj
+trailer << /Root 1 0 R /Info 3 0 R /Prev 9 >>
+%%EOF`);
+		expect(card.title).toBe("Final");
+	});
+
+	test("falls back to a dictionary naming the author when objects are compressed", () => {
+		const card = buildPdf(`%PDF-1.5
+4 0 obj << /Title (Bookmark) /Parent 3 0 R >> endobj
+9 0 obj << /Title (The real title) /Author (Someone) >> endobj
+10 0 obj << /Type /Page >> endobj
+11 0 obj << /Type /Page >> endobj
+12 0 obj << /Type /Page >> endobj
+13 0 obj << /Type /Outlines /Count 40 >> endobj
+%%EOF`);
+		expect(card.title).toBe("The real title");
+		expect(card.pages).toBe(3);
+	});
+
+	test("keeps the file name when a PDF has no document title", () => {
+		const card = buildPdf(`%PDF-1.4
+1 0 obj << /Title (Bookmark) >> endobj
+%%EOF`);
+		expect(card.title).toBe("report.pdf");
+		expect(card.pages).toBeUndefined();
+	});
+
+	test("reads only both ends of a large PDF", () => {
+		const pages = "10 0 obj << /Type /Page >> endobj\n".repeat(80_000);
+		const card = buildPdf(`%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj
+2 0 obj << /Type /Pages /Count 120 >> endobj
+${pages}
+3 0 obj << /Title (Annual report) >> endobj
+trailer << /Root 1 0 R /Info 3 0 R >>
+%%EOF`);
+		expect(card.title).toBe("Annual report");
+		expect(card.pages).toBe(120);
+		expect(buildPdf(`%PDF-1.5\n${pages}%%EOF`).pages).toBeUndefined();
+	});
+
+	test.each([
+		["https://example.com/media/talk.webm", "video"],
+		["https://example.com/media/episode.mp3", "audio"],
+		["https://example.com/releases/app.zip", "file"],
+	])("guesses the kind of %s from its extension", (url, kind) => {
+		expect(FileMetadata.buildFromUrl(url)).toMatchObject({
+			url,
+			title: url.split("/").pop(),
+			host: "example.com",
+			kind,
+		});
+	});
+
+	test("formats sizes", () => {
+		expect(FileMetadata.formatSize(512)).toBe("512 B");
+		expect(FileMetadata.formatSize(1_536_000)).toBe("1.5 MB");
+	});
+});
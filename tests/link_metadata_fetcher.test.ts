@@ -0,0 +1,106 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+
+import {
+	type FetchFailure,
+	LinkMetadataFetcher,
+} from "src/link_metadata_fetcher";
+import type ObsidianAutoCardLink from "src/main";
+import { fixture, requestUrl, serve } from "tests/setup";
+
+/**
+ * Builds the parts of the plugin the fetcher uses.
+ * @param deny - Hosts the fetch policy denies
+ * @returns The plugin
+ */
+function plugin(deny: string[] = []): ObsidianAutoCardLink {
+	return {
+		settings: { fetchTimeoutSeconds: 5 },
+		cache: { get: () => undefined, set: () => {} },
+		policy: {
+			allowsUrl: (url: string) => !deny.includes(new URL(url).hostname),
+		},
+		fetches: {
+			track: <T>(_url: string, fetch: () => Promise<T>) => fetch(),
+		},
+		extractors: { extract: async () => undefined },
+	} as unknown as ObsidianAutoCardLink;
+}
+
+describe("LinkMetadataFetcher", () => {
+	let log: ReturnType<typeof spyOn>;
+
+	beforeEach(() => {
+		log = spyOn(console, "log").mockImplementation(() => {});
+		serve({
+			"https://example.com/article": {
+				status: 200,
+				body: fixture("fetcher/article.html"),
+				headers: { "content-type": "text/html; charset=utf-8" },
+			},
+			"https://example.com/challenge": {
+				status: 200,
+				body: fixture("fetcher/challenge.html"),
+				headers: { "content-type": "text/html" },
+			},
+		});
+	});
+
+	afterEach(() => {
+		log.mockRestore();
+	});
+
+	test("reads the metadata of a page", async () => {
+		const onFailure = mock((_reason: FetchFailure) => {});
+		const metadata = await new LinkMetadataFetcher(plugin()).fetch(
+			"https://example.com/article",
+			{ onFailure },
+		);
+		expect(metadata).toMatchObject({
+			title: "An article",
+			description: "What the article is about",
+		});
+		expect(onFailure).not.toHaveBeenCalled();
+	});
+
+	test.each([
+		["https://example.com/challenge", "interstitial"],
+		["https://example.com/missing", "unavailable"],
+	])("tells why %s failed", async (url, reason) => {
+		const onFailure = mock((_reason: FetchFailure) => {});
+		const metadata = await new LinkMetadataFetcher(plugin()).fetch(url, {
+			onFailure,
+		});
+		expect(metadata).toBeUndefined();
+		expect(onFailure).toHaveBeenCalledWith(reason as FetchFailure);
+	});
+
+	test.each([
+		[404, {}],
+		[200, { "content-type": "text/html" }],
+	])("never downloads media whose HEAD request answers %d", async (status, headers) => {
+		const url = "https://example.com/media/talk.mp4";
+		serve({ [url]: { status, headers } });
+		const metadata = await new LinkMetadataFetcher(plugin()).fetch(url);
+		expect(metadata).toMatchObject({ title: "talk.mp4", kind: "video" });
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+		expect(requestUrl.mock.calls[0][0]).toMatchObject({ method: "HEAD" });
+	});
+
+	test("doesn't fetch links the fetch policy denies", async () => {
+		const onFailure = mock((_reason: FetchFailure) => {});
+		const metadata = await new LinkMetadataFetcher(
+			plugin(["example.com"]),
+		).fetch("https://example.com/article", { onFailure });
+		expect(metadata).toBeUndefined();
+		expect(onFailure).toHaveBeenCalledWith("denied");
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+});
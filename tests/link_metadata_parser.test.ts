@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import { LinkMetadataParser } from "src/link_metadata_parser";
+import { fixture, requestUrl, serve } from "tests/setup";
+
+const manifestUrl = "https://example.com/app/manifest.webmanifest";
+
+/**
+ * Parses a page.
+ * @param url - The URL of the page
+ * @param html - The HTML of the page
+ * @param canFetch - Decides whether linked resources may be fetched
+ * @returns The parsed metadata
+ */
+function parse(url: string, html: string, canFetch?: (url: string) => boolean) {
+	return new LinkMetadataParser(url, html, canFetch).parse();
+}
+
+/**
+ * Builds a page from the elements of its head.
+ * @param head - The elements of the head
+ * @returns The HTML
+ */
+function page(head: string): string {
+	return `<!doctype html><html><head><title>Page</title>${head}</head><body></body></html>`;
+}
+
+describe("LinkMetadataParser", () => {
+	beforeEach(() => {
+		serve({ [manifestUrl]: fixture("parser/manifest.webmanifest") });
+	});
+
+	test("resolves relative urls against the base href", async () => {
+		const metadata = await parse(
+			"https://example.com/blog/release-notes",
+			fixture("parser/base_href.html"),
+		);
+		expect(metadata).toMatchObject({
+			favicon: "https://static.example.net/assets/img/icon-32.png",
+			image: "https://static.example.net/assets/img/cover.png",
+			canonicalUrl: "https://static.example.net/blog/release-notes",
+		});
+	});
+
+	test("resolves relative and protocol-relative urls against the page", async () => {
+		const metadata = await parse(
+			"https://example.com/docs/guide/paths.html",
+			fixture("parser/relative.html"),
+		);
+		expect(metadata).toMatchObject({
+			favicon: "https://example.com/docs/guide/favicon-48.png",
+			image: "https://cdn.example.net/covers/relative.jpg",
+			canonicalUrl: "https://example.com/docs/relative-paths",
+		});
+	});
+
+	test("picks the smallest icon of at least 32 pixels", async () => {
+		const metadata = await parse(
+			"https://example.com/",
+			fixture("parser/icons.html"),
+			() => true,
+		);
+		expect(metadata?.favicon).toBe("https://example.com/icons/64.png");
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+
+	test("takes an icon of the manifest when the page's icons are too small", async () => {
+		const metadata = await parse(
+			"https://example.com/",
+			fixture("parser/small_icons.html"),
+			() => true,
+		);
+		expect(metadata?.favicon).toBe("https://example.com/app/icons/192.png");
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	test("doesn't fetch the manifest unless allowed", async () => {
+		const metadata = await parse(
+			"https://example.com/",
+			fixture("parser/small_icons.html"),
+		);
+		expect(metadata?.favicon).toBe("https://example.com/icons/24.png");
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+
+	test("keeps the page's icons when the manifest can't be read", async () => {
+		serve({});
+		const metadata = await parse(
+			"https://example.com/",
+			fixture("parser/small_icons.html"),
+			() => true,
+		);
+		expect(metadata?.favicon).toBe("https://example.com/icons/24.png");
+	});
+
+	test.each([
+		[
+			"an svg icon",
+			'<link rel="icon" href="/a.png" sizes="48x48"><link rel="icon" href="/b.svg">',
+			"https://example.com/a.png",
+		],
+		[
+			"an icon sized any",
+			'<link rel="icon" href="/a.png" sizes="any"><link rel="icon" href="/b.png">',
+			"https://example.com/a.png",
+		],
+		[
+			"an apple touch icon without sizes",
+			'<link rel="icon" href="/a.png"><link rel="apple-touch-icon-precomposed" href="/b.png">',
+			"https://example.com/b.png",
+		],
+		[
+			"the first of icons of the same size",
+			'<link rel="icon" href="/a.png" sizes="64x64"><link rel="icon" href="/b.png" sizes="64x64">',
+			"https://example.com/a.png",
+		],
+		["no icons", "", "https://example.com/favicon.ico"],
+		[
+			"an icon with another protocol",
+			'<link rel="icon" href="data:image/png;base64,AAAA">',
+			"https://example.com/favicon.ico",
+		],
+	])("picks the favicon of a page with %s", async (_, head, favicon) => {
+		const metadata = await parse("https://example.com/post", page(head));
+		expect(metadata?.favicon).toBe(favicon);
+	});
+
+	test.each([
+		[
+			"the secure url of the Open Graph image",
+			`<meta name="twitter:image" content="/twitter.png">
+			<meta property="og:image" content="http://example.com/og.png">
+			<meta property="og:image:secure_url" content="https://example.com/og.png">`,
+			"https://example.com/og.png",
+		],
+		[
+			"the Open Graph image",
+			`<meta name="twitter:image" content="/twitter.png">
+			<meta property="og:image" content="/og.png">`,
+			"https://example.com/og.png",
+		],
+		[
+			"the Twitter card image",
+			'<meta name="twitter:image" content="/twitter.png">',
+			"https://example.com/twitter.png",
+		],
+		[
+			"the JSON-LD image",
+			'<script type="application/ld+json">{"@type":"Article","image":{"url":"/ld.png"}}</script>',
+			"https://example.com/ld.png",
+		],
+	])("prefers %s as the image", async (_, head, image) => {
+		const metadata = await parse("https://example.com/post", page(head));
+		expect(metadata?.image).toBe(image);
+	});
+
+	test("skips an empty secure url", async () => {
+		const metadata = await parse(
+			"https://example.com/post",
+			page(`<meta property="og:image:secure_url" content=" ">
+			<meta property="og:image" content="/og.png">`),
+		);
+		expect(metadata?.image).toBe("https://example.com/og.png");
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Test environment: a DOM and a stand-in for the Obsidian API.
+ * Preloaded by `bun test` through bunfig.toml.
+ * @module tests/setup
+ */
+
+import { mock } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+import type { ExtractorRequest } from "src/extractors/registry";
+
+GlobalRegistrator.register();
+
+// obsidian adds these shorthands to every element
+Element.prototype.getAttr = function (this: Element, name: string) {
+	return this.getAttribute(name);
+};
+
+/**
+ * A canned response: a body, or a status with optional body and headers.
+ */
+export type Route =
+	| string
+	| object
+	| {
+			status: number;
+			body?: string | object;
+			headers?: Record<string, string>;
+	  };
+
+/**
+ * Stand-in for `requestUrl`, answering with the routes given to {@link serve}.
+ */
+export const requestUrl = mock(
+	async (_request: RequestUrlParam | string): Promise<RequestUrlResponse> =>
+		respond(404, ""),
+);
+
+mock.module("obsidian", () => ({ requestUrl }));
+
+/**
+ * Sends the requests of an extractor to `requestUrl`, as the registry does
+ * for requests the fetch policy allows.
+ */
+export const request: ExtractorRequest = (param) => requestUrl(param);
+
+/**
+ * Makes `requestUrl` answer with canned responses keyed by URL.
+ * Unknown URLs get a 404. Previous calls are forgotten.
+ * @param routes - The responses keyed by URL
+ */
+export function serve(routes: Record<string, Route>): void {
+	requestUrl.mockReset();
+	requestUrl.mockImplementation(async (request) => {
+		const url = typeof request === "string" ? request : request.url;
+		const route = routes[url];
+		if (route === undefined) return respond(404, "");
+		if (typeof route === "object" && "status" in route) {
+			return respond(route.status, route.body ?? "", route.headers);
+		}
+		return respond(200, route);
+	});
+}
+
+/**
+ * Reads a file of the fixtures folder.
+ * @param path - The path relative to the fixtures folder
+ * @returns The file content
+ */
+export function fixture(path: string): string {
+	return readFileSync(join(import.meta.dir, "fixtures", path), "utf8");
+}
+
+/**
+ * Reads a file of the fixtures folder as raw bytes.
+ * @param path - The path relative to the fixtures folder
+ * @returns The file content
+ */
+export function fixtureBytes(path: string): ArrayBuffer {
+	const data = readFileSync(join(import.meta.dir, "fixtures", path));
+	return data.buffer.slice(
+		data.byteOffset,
+		data.byteOffset + data.byteLength,
+	) as ArrayBuffer;
+}
+
+/**
+ * Builds a response the way `requestUrl` returns it.
+ * @param status - The status code
+ * @param body - The body, serialized as JSON unless it is a string
+ * @param headers - The response headers
+ * @returns The response
+ */
+function respond(
+	status: number,
+	body: string | object,
+	headers: Record<string, string> = {},
+): RequestUrlResponse {
+	const text = typeof body === "string" ? body : JSON.stringify(body);
+	const arrayBuffer = new TextEncoder().encode(text).buffer as ArrayBuffer;
+	return {
+		status,
+		headers,
+		text,
+		arrayBuffer,
+		get json() {
+			return JSON.parse(text);
+		},
+	};
+}